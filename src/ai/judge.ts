@@ -1,6 +1,7 @@
 import { Logger } from 'winston';
 import { createLogger } from '../utils/logger';
 import { Opportunity } from '../scout';
+import { EventBus, getEventBus } from '../events/event-bus';
 
 export interface EvaluationParams {
   strategy: 'arb' | 'yield' | 'sentiment';
@@ -23,7 +24,7 @@ export interface EvaluationResult {
 export class Judge {
   private logger: Logger;
 
-  constructor() {
+  constructor(private events: EventBus = getEventBus()) {
     this.logger = createLogger('Judge');
   }
 
@@ -49,6 +50,7 @@ export class Judge {
         }
       };
 
+      await this.events.publish('OpportunityJudged', { params, evaluation });
       return evaluation;
     } catch (error) {
       this.logger.error('Error evaluating opportunity', { error });
@@ -0,0 +1,412 @@
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import { SimulatedClock } from '../utils/clock';
+import { EventBus } from '../events/event-bus';
+import { TwitterSentimentAnalyzer, SentimentScorer } from '../services/twitter-sentiment';
+import { PriceHistory } from '../services/price-history';
+import { Judge } from '../ai/judge';
+import { RiskTier } from '../config/token-registry';
+import { RiskEngine, RiskLimits } from '../risk/risk-engine';
+import { SizingConfig, PositionSizer, createPositionSizer, boundPositionSize } from '../risk/position-sizing';
+import { ExitManager, ExitConfig, ExitReason } from '../risk/exit-manager';
+import { checkAnalysis, buildSentimentOpportunity, selectTemplate } from '../pipeline/rules';
+import { getTemplate, templateDefaults, validateTemplateConfig } from '../runtime/templates';
+import { BacktestDataset, ReplayTweetSource, ReplayPriceFeed } from './dataset';
+import { KeywordSentimentScorer } from './keyword-scorer';
+import { SimulatedFillEngine, FillConfig } from './fill-engine';
+import type { Position, Trade } from '../services/agent-spawner';
+
+export interface BacktestConfig {
+  start?: number;               // Defaults to the first recorded data point
+  end?: number;                 // Defaults to the last recorded data point
+  step: number;                 // Simulated time between decision cycles, ms
+  tweetLookback: number;        // Tweets older than this are not seen by the analyzer, ms
+  tokens?: string[];            // Defaults to every token with recorded prices
+  riskTiers: Record<string, RiskTier>;
+  initialEth: number;
+  minSentiment: number;
+  minConfidence: number;
+  maxAgentsPerToken: number;
+  minCapital: number;
+  maxCapital: number;
+  sizing: SizingConfig;
+  exits: ExitConfig;
+  risk: RiskLimits;
+  fills: FillConfig;
+  scorer?: SentimentScorer;     // Defaults to the deterministic keyword scorer
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  eth: number;
+  positions: number;            // Marked-to-market value of token holdings in ETH
+  equity: number;
+}
+
+export interface BacktestSummary {
+  start: number;
+  end: number;
+  initialEquity: number;
+  finalEquity: number;
+  totalReturn: number;          // Percent
+  maxDrawdown: number;          // Percent, peak to trough
+  volatility: number;           // Annualized, of per-step equity returns
+  sharpe: number | null;
+  trades: number;
+  winRate: number | null;       // Share of closing sells with positive realized PnL
+  realizedPnl: number;
+  gasSpent: number;
+  exits: Record<ExitReason, number>;
+  rejections: Record<string, number>;
+}
+
+export interface BacktestResult {
+  summary: BacktestSummary;
+  equityCurve: EquityPoint[];
+  trades: Trade[];
+}
+
+const YEAR = 365 * 24 * 60 * 60 * 1000;
+
+// Replays recorded tweets and pool prices through the same analyzer, Judge, sizing,
+// risk and exit logic as the live pipeline, with a simulated clock and fill engine.
+// The strategy stage's LLM review is skipped; every Judge-approved opportunity proceeds.
+export class Backtester {
+  private logger: Logger;
+  private clock: SimulatedClock;
+  private analyzer: TwitterSentimentAnalyzer;
+  private prices: ReplayPriceFeed;
+  private history: PriceHistory;
+  private judge: Judge;
+  private sizer: PositionSizer;
+  private riskEngine: RiskEngine;
+  private exitManager: ExitManager;
+  private fills: SimulatedFillEngine;
+  private positions: Map<string, Position>;
+  private openAgents: Map<string, number>;     // token -> buys stacked on the open position
+  private trades: Trade[];
+  private equityCurve: EquityPoint[];
+  private rejections: Map<string, number>;
+  private lastFed: Map<string, number>;
+  readonly events: EventBus;    // Kept apart from the live bus so replays never reach live subscribers
+
+  constructor(private dataset: BacktestDataset, private config: BacktestConfig) {
+    this.logger = createLogger('Backtester');
+    const first = Math.min(...[...dataset.tweets, ...dataset.prices].map(entry => entry.timestamp));
+    this.clock = new SimulatedClock(config.start ?? first);
+    this.events = new EventBus();
+    this.analyzer = new TwitterSentimentAnalyzer({
+      scorer: config.scorer || new KeywordSentimentScorer(),
+      tweetSource: new ReplayTweetSource(dataset.tweets, this.clock, config.tweetLookback),
+      clock: this.clock,
+      events: this.events
+    });
+    this.prices = new ReplayPriceFeed(dataset.prices, this.clock);
+    this.history = new PriceHistory();
+    this.judge = new Judge(this.events);
+    this.sizer = createPositionSizer(config.sizing);
+    this.riskEngine = new RiskEngine(config.risk, this.clock);
+    this.exitManager = new ExitManager(config.exits);
+    this.fills = new SimulatedFillEngine(config.initialEth, config.fills);
+    this.positions = new Map();
+    this.openAgents = new Map();
+    this.trades = [];
+    this.equityCurve = [];
+    this.rejections = new Map();
+    this.lastFed = new Map();
+  }
+
+  async run(): Promise<BacktestResult> {
+    const timestamps = [...this.dataset.tweets, ...this.dataset.prices].map(entry => entry.timestamp);
+    if (timestamps.length === 0) {
+      throw new Error('Dataset is empty');
+    }
+    const start = this.config.start ?? Math.min(...timestamps);
+    const end = this.config.end ?? Math.max(...timestamps);
+    const tokens = this.config.tokens?.map(token => token.toUpperCase()) ?? this.prices.tokens();
+
+    this.logger.info('Starting backtest', {
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      step: this.config.step,
+      tokens,
+      sizing: this.config.sizing.strategy
+    });
+
+    for (let now = start; now <= end; now += this.config.step) {
+      this.clock.set(now);
+      this.feedPrices(tokens);
+      await this.checkExits();
+      for (const token of tokens) {
+        try {
+          await this.runPipeline(token);
+        } catch (error) {
+          this.logger.error('Error in backtest cycle', { error, token, timestamp: now });
+        }
+      }
+      this.recordEquity();
+    }
+
+    const result: BacktestResult = {
+      summary: this.summarize(start, end),
+      equityCurve: this.equityCurve,
+      trades: this.trades
+    };
+    this.logger.info('Backtest completed', result.summary);
+    return result;
+  }
+
+  private feedPrices(tokens: string[]) {
+    for (const token of tokens) {
+      for (const sample of this.prices.samplesSince(token, this.lastFed.get(token) ?? -Infinity)) {
+        this.history.record(token, sample.price, sample.timestamp);
+      }
+      this.lastFed.set(token, this.clock.now());
+    }
+  }
+
+  private reject(reason: string) {
+    this.rejections.set(reason, (this.rejections.get(reason) || 0) + 1);
+  }
+
+  private async runPipeline(token: string) {
+    const price = this.prices.getPrice(token);
+    if (!price) return;
+
+    const analysis = await this.analyzer.getMarketAnalysis(token);
+    if (!analysis) return;
+    if (checkAnalysis(analysis, this.config)) {
+      this.reject('analysis');
+      return;
+    }
+
+    if ((this.openAgents.get(token) || 0) >= this.config.maxAgentsPerToken) {
+      this.reject('opportunity');
+      return;
+    }
+
+    const evaluation = await this.judge.evaluateOpportunity({
+      strategy: 'sentiment',
+      capitalRequired: this.config.minCapital,
+      opportunity: buildSentimentOpportunity(token, analysis, this.clock.now())
+    });
+    if (!evaluation.shouldSpawn) {
+      this.reject('judge');
+      return;
+    }
+
+    // No strategy LLM here; the judge's config is held to the template's schema as in the live pipeline
+    const template = getTemplate(selectTemplate(analysis.sentiment));
+    const { config } = validateTemplateConfig(template, { ...templateDefaults(template), ...evaluation.recommendedConfig });
+    const recommended = { ...evaluation.recommendedConfig, ...config };
+    const type = analysis.sentiment > 0 ? 'buy' : 'sell';
+    const raw = this.sizer.size({
+      token,
+      confidence: analysis.confidence,
+      walletBalance: this.fills.getEth(),
+      volatility: this.history.realizedVolatility(token, undefined, undefined, this.clock.now()),
+      payoffRatio: recommended.stopLoss > 0 ? recommended.targetProfit / recommended.stopLoss : undefined
+    });
+    const size = boundPositionSize(raw, {
+      walletBalance: this.fills.getEth(),
+      minCapital: this.config.minCapital,
+      maxCapital: this.config.maxCapital,
+      recommendedCapital: recommended.capital
+    });
+    if (size === 0) {
+      this.reject('sizing');
+      return;
+    }
+
+    // Sells turn the ETH size into tokens we actually hold
+    const amount = type === 'buy' ? size : Math.min(size / price, this.fills.getHolding(token));
+    if (!(amount > 0)) {
+      this.reject('no_position');
+      return;
+    }
+
+    const trade = this.execute(token, type, amount, template.name);
+    if (trade && type === 'buy') {
+      this.openAgents.set(token, (this.openAgents.get(token) || 0) + 1);
+      const position = this.positions.get(token)!;
+      position.exit = { ...position.exit, ...template.exits(config) };
+    }
+  }
+
+  private async checkExits() {
+    for (const position of this.positions.values()) {
+      if (!(Number(position.amount) > 0)) continue;
+      const price = this.prices.getPrice(position.token);
+      if (!price) continue;
+
+      const signal = this.exitManager.evaluate(position, price, this.clock.now());
+      if (signal) {
+        this.execute(position.token, 'sell', this.fills.getHolding(position.token), position.strategy, signal.reason);
+      }
+    }
+  }
+
+  private execute(
+    token: string,
+    type: 'buy' | 'sell',
+    amount: number,
+    template: string,
+    exitReason?: ExitReason
+  ): Trade | null {
+    const price = this.prices.getPrice(token)!;
+    const exposures: Record<string, number> = {};
+    for (const [held, quantity] of Object.entries(this.fills.getHoldings())) {
+      exposures[held] = quantity * (this.prices.getPrice(held) || 0);
+    }
+
+    const risk = this.riskEngine.check(
+      {
+        token,
+        riskTier: this.config.riskTiers[token] || 'high',
+        template,
+        type,
+        value: type === 'buy' ? amount : amount * price,
+        reducing: exitReason !== undefined
+      },
+      { ethBalance: this.fills.getEth(), exposures }
+    );
+    if (!risk.approved) {
+      this.reject(risk.reason!);
+      return null;
+    }
+
+    const now = this.clock.now();
+    const trade: Trade = {
+      id: `${token}-${now}-${this.trades.length}`,
+      timestamp: now,
+      token,
+      type,
+      amount: amount.toString(),
+      price: price.toString(),
+      txHash: `backtest-${this.trades.length}`,
+      status: 'completed',
+      template,
+      exitReason
+    };
+
+    try {
+      const fill = this.fills.fill(type, token, amount, price);
+      trade.price = fill.price.toString();
+      trade.fill = {
+        amountIn: fill.amountIn.toString(),
+        amountOut: fill.amountOut.toString(),
+        gasUsed: '0'
+      };
+      trade.gasCost = fill.gasCost.toString();
+      this.updatePosition(trade, fill.amountIn, fill.amountOut);
+    } catch (error) {
+      trade.status = 'failed';
+      trade.failureReason = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    this.trades.push(trade);
+    this.riskEngine.recordTrade(trade);
+    return trade.status === 'completed' ? trade : null;
+  }
+
+  // Same bookkeeping as the live spawner: weighted entry price, realized PnL on sells
+  private updatePosition(trade: Trade, amountIn: number, amountOut: number) {
+    const now = this.clock.now();
+    const price = Number(trade.price);
+    const position: Position = this.positions.get(trade.token) || {
+      token: trade.token,
+      amount: '0',
+      entryPrice: '0',
+      currentPrice: '0',
+      twapPrice: '0',
+      pnl: '0',
+      strategy: trade.template || 'sentiment-based',
+      lastUpdate: now,
+      tokenAddress: trade.token
+    };
+    const current = Number(position.amount);
+
+    if (trade.type === 'buy') {
+      const total = current + amountOut;
+      if (current === 0) {
+        position.openedAt = now;
+        position.peakPrice = price.toString();
+      }
+      position.entryPrice = ((current * Number(position.entryPrice) + amountOut * price) / total).toString();
+      position.amount = total.toString();
+    } else {
+      const closed = Math.min(amountIn, current);
+      trade.realizedPnl = ((price - Number(position.entryPrice)) * closed).toString();
+      const remaining = current - closed;
+      position.amount = remaining.toString();
+      if (remaining <= 0) {
+        position.openedAt = undefined;
+        position.peakPrice = undefined;
+        position.exit = undefined;
+        this.openAgents.delete(trade.token);
+      }
+    }
+
+    position.currentPrice = price.toString();
+    position.pnl = ((price - Number(position.entryPrice)) * Number(position.amount)).toString();
+    position.lastUpdate = now;
+    this.positions.set(trade.token, position);
+  }
+
+  private recordEquity() {
+    let positions = 0;
+    for (const [token, quantity] of Object.entries(this.fills.getHoldings())) {
+      positions += quantity * (this.prices.getPrice(token) || 0);
+    }
+    const eth = this.fills.getEth();
+    this.equityCurve.push({ timestamp: this.clock.now(), eth, positions, equity: eth + positions });
+  }
+
+  private summarize(start: number, end: number): BacktestSummary {
+    const equities = this.equityCurve.map(point => point.equity);
+    const initialEquity = this.config.initialEth;
+    const finalEquity = equities[equities.length - 1] ?? initialEquity;
+
+    let peak = initialEquity;
+    let maxDrawdown = 0;
+    for (const equity of equities) {
+      peak = Math.max(peak, equity);
+      maxDrawdown = Math.max(maxDrawdown, peak > 0 ? (peak - equity) / peak * 100 : 0);
+    }
+
+    const returns: number[] = [];
+    for (let i = 1; i < equities.length; i++) {
+      if (equities[i - 1] > 0) returns.push(equities[i] / equities[i - 1] - 1);
+    }
+    const mean = returns.reduce((sum, r) => sum + r, 0) / (returns.length || 1);
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length || 1);
+    const periodsPerYear = YEAR / this.config.step;
+    const volatility = Math.sqrt(variance * periodsPerYear);
+
+    const completed = this.trades.filter(trade => trade.status === 'completed');
+    const closes = completed.filter(trade => trade.realizedPnl !== undefined);
+    const exits: Record<ExitReason, number> = { stop_loss: 0, trailing_stop: 0, take_profit: 0, time_exit: 0 };
+    for (const trade of completed) {
+      if (trade.exitReason) exits[trade.exitReason]++;
+    }
+
+    return {
+      start,
+      end,
+      initialEquity,
+      finalEquity,
+      totalReturn: (finalEquity - initialEquity) / initialEquity * 100,
+      maxDrawdown,
+      volatility,
+      sharpe: volatility > 0 ? mean * periodsPerYear / volatility : null,
+      trades: completed.length,
+      winRate: closes.length > 0
+        ? closes.filter(trade => Number(trade.realizedPnl) > 0).length / closes.length
+        : null,
+      realizedPnl: closes.reduce((sum, trade) => sum + Number(trade.realizedPnl), 0),
+      gasSpent: this.fills.getGasSpent(),
+      exits,
+      rejections: Object.fromEntries(this.rejections)
+    };
+  }
+}
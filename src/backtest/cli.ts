@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+// Per-cycle analyzer and Judge logs drown the summary; opt back in with LOG_LEVEL=info
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'warn';
+
+import { createLogger } from '../utils/logger';
+import { RiskTier } from '../config/token-registry';
+import { SizingStrategy } from '../risk/position-sizing';
+import { loadDataset } from './dataset';
+import { Backtester } from './backtester';
+
+const logger = createLogger('BacktestCLI');
+
+const optionalNumber = (value?: string) => value ? Number(value) : undefined;
+
+// Risk tiers come straight from the registry file; no provider is needed offline
+async function loadRiskTiers(configPath: string): Promise<Record<string, RiskTier>> {
+  try {
+    const raw = JSON.parse(await fs.readFile(configPath, 'utf8'));
+    const tiers: Record<string, RiskTier> = {};
+    for (const entry of raw.tokens || []) {
+      tiers[String(entry.symbol).toUpperCase()] = entry.riskTier;
+    }
+    return tiers;
+  } catch (error) {
+    logger.warn('Could not read token registry, treating every token as high risk', { configPath, error });
+    return {};
+  }
+}
+
+async function main() {
+  const [datasetPath, outputPath] = process.argv.slice(2);
+  if (!datasetPath) {
+    console.error('Usage: npm run backtest -- <dataset.json> [output.json]');
+    process.exit(1);
+  }
+
+  const dataset = await loadDataset(datasetPath);
+  const backtester = new Backtester(dataset, {
+    start: process.env.BACKTEST_START ? Date.parse(process.env.BACKTEST_START) : undefined,
+    end: process.env.BACKTEST_END ? Date.parse(process.env.BACKTEST_END) : undefined,
+    step: Number(process.env.MONITORING_INTERVAL) || 5 * 60 * 1000,
+    tweetLookback: Number(process.env.BACKTEST_TWEET_LOOKBACK) || 60 * 60 * 1000,
+    tokens: process.env.BACKTEST_TOKENS ? process.env.BACKTEST_TOKENS.split(',') : undefined,
+    riskTiers: await loadRiskTiers(process.env.TOKEN_CONFIG_PATH || 'config/tokens.json'),
+    initialEth: Number(process.env.BACKTEST_INITIAL_ETH) || 10,
+    minSentiment: Number(process.env.MIN_SENTIMENT) || 0.3,
+    minConfidence: Number(process.env.MIN_CONFIDENCE) || 0.7,
+    maxAgentsPerToken: Number(process.env.MAX_AGENTS_PER_TOKEN) || 3,
+    minCapital: Number(process.env.MIN_CAPITAL) || 0.1,
+    maxCapital: Number(process.env.MAX_CAPITAL) || 1.0,
+    sizing: {
+      strategy: (process.env.POSITION_SIZING as SizingStrategy) || 'fixed-fraction',
+      fraction: Number(process.env.SIZING_FRACTION) || 0.1,
+      kellyMultiplier: Number(process.env.KELLY_MULTIPLIER) || 0.5,
+      targetVolatility: Number(process.env.TARGET_VOLATILITY) || 0.5,
+      payoffRatio: Number(process.env.DEFAULT_PAYOFF_RATIO) || 2
+    },
+    exits: {
+      stopLoss: optionalNumber(process.env.EXIT_STOP_LOSS),
+      trailingStop: optionalNumber(process.env.EXIT_TRAILING_STOP),
+      takeProfit: optionalNumber(process.env.EXIT_TAKE_PROFIT),
+      maxHoldingTime: process.env.EXIT_MAX_HOLDING_HOURS
+        ? Number(process.env.EXIT_MAX_HOLDING_HOURS) * 60 * 60 * 1000
+        : undefined
+    },
+    risk: {
+      maxTotalExposure: Number(process.env.RISK_MAX_TOTAL_EXPOSURE) || 5,
+      tokenExposureCaps: {
+        low: Number(process.env.RISK_TOKEN_CAP_LOW) || 2,
+        medium: Number(process.env.RISK_TOKEN_CAP_MEDIUM) || 1,
+        high: Number(process.env.RISK_TOKEN_CAP_HIGH) || 0.5
+      },
+      maxTemplateExposure: Number(process.env.RISK_MAX_TEMPLATE_EXPOSURE) || 2,
+      dailyLossLimit: Number(process.env.RISK_DAILY_LOSS_LIMIT) || 0.5,
+      maxTradesPerHour: Number(process.env.RISK_MAX_TRADES_PER_HOUR) || 10,
+      minEthReserve: Number(process.env.RISK_MIN_ETH_RESERVE) || 0.01
+    },
+    fills: {
+      feeRate: Number(process.env.BACKTEST_FEE_RATE) || 0.003,
+      slippage: Number(process.env.BACKTEST_SLIPPAGE) || 0.005,
+      gasCost: Number(process.env.BACKTEST_GAS_COST) || 0.0005
+    }
+  });
+
+  const result = await backtester.run();
+
+  if (outputPath) {
+    await fs.writeFile(outputPath, JSON.stringify(result, null, 2));
+  }
+  console.log(JSON.stringify(result.summary, null, 2));
+}
+
+main().catch(error => {
+  logger.error('Backtest failed', { error });
+  process.exit(1);
+});
@@ -0,0 +1,127 @@
+import { promises as fs } from 'fs';
+import { Clock } from '../utils/clock';
+import { TweetSource } from '../services/twitter-sentiment';
+
+export interface RecordedTweet {
+  token: string;
+  text: string;
+  retweets: number;
+  likes: number;
+  timestamp: number;
+}
+
+export interface RecordedPrice {
+  token: string;
+  timestamp: number;
+  price: number;            // ETH per whole token, as read from the pool
+}
+
+export interface BacktestDataset {
+  tweets: RecordedTweet[];
+  prices: RecordedPrice[];
+}
+
+// One entry of the file as parsed, before any field is checked
+type RawEntry = Record<string, unknown>;
+
+const toTimestamp = (value: unknown): number =>
+  typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+
+// Loads a JSON dataset; timestamps may be epoch milliseconds or ISO strings
+export async function loadDataset(file: string): Promise<BacktestDataset> {
+  const raw: { tweets?: unknown; prices?: unknown } = JSON.parse(await fs.readFile(file, 'utf8')) ?? {};
+  if (!Array.isArray(raw.tweets) || !Array.isArray(raw.prices)) {
+    throw new Error(`Dataset ${file} must contain "tweets" and "prices" arrays`);
+  }
+
+  const dataset: BacktestDataset = {
+    tweets: (raw.tweets as RawEntry[]).map(tweet => ({
+      token: String(tweet.token).toUpperCase(),
+      text: String(tweet.text),
+      retweets: Number(tweet.retweets) || 0,
+      likes: Number(tweet.likes) || 0,
+      timestamp: toTimestamp(tweet.timestamp)
+    })),
+    prices: (raw.prices as RawEntry[]).map(price => ({
+      token: String(price.token).toUpperCase(),
+      timestamp: toTimestamp(price.timestamp),
+      price: Number(price.price)
+    }))
+  };
+
+  for (const entry of [...dataset.tweets, ...dataset.prices]) {
+    if (Number.isNaN(entry.timestamp)) {
+      throw new Error(`Dataset ${file} contains an invalid timestamp`);
+    }
+  }
+
+  dataset.tweets.sort((a, b) => a.timestamp - b.timestamp);
+  dataset.prices.sort((a, b) => a.timestamp - b.timestamp);
+  return dataset;
+}
+
+// Serves only the tweets that had been posted by the simulated time, within the lookback window
+export class ReplayTweetSource implements TweetSource {
+  constructor(
+    private tweets: RecordedTweet[],
+    private clock: Clock,
+    private lookback: number = 60 * 60 * 1000
+  ) {}
+
+  async searchTweets(symbol: string): Promise<RecordedTweet[]> {
+    const now = this.clock.now();
+    return this.tweets.filter(tweet =>
+      tweet.token === symbol.toUpperCase() &&
+      tweet.timestamp <= now &&
+      tweet.timestamp > now - this.lookback
+    );
+  }
+}
+
+// Last recorded price per token at the simulated time
+export class ReplayPriceFeed {
+  private series: Map<string, RecordedPrice[]>;
+
+  constructor(prices: RecordedPrice[], private clock: Clock) {
+    this.series = new Map();
+    for (const price of prices) {
+      if (!this.series.has(price.token)) {
+        this.series.set(price.token, []);
+      }
+      this.series.get(price.token)!.push(price);
+    }
+  }
+
+  tokens(): string[] {
+    return Array.from(this.series.keys());
+  }
+
+  getPrice(token: string): number | null {
+    const series = this.series.get(token.toUpperCase());
+    if (!series) return null;
+
+    // Binary search for the last sample at or before now
+    const now = this.clock.now();
+    let low = 0;
+    let high = series.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (series[mid].timestamp <= now) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return found >= 0 ? series[found].price : null;
+  }
+
+  // Samples strictly after `from` up to the simulated time
+  samplesSince(token: string, from: number): RecordedPrice[] {
+    const now = this.clock.now();
+    return (this.series.get(token.toUpperCase()) || []).filter(
+      price => price.timestamp > from && price.timestamp <= now
+    );
+  }
+}
@@ -0,0 +1,73 @@
+export interface FillConfig {
+  feeRate: number;          // Pool fee taken from every fill
+  slippage: number;         // Extra price concession on every fill
+  gasCost: number;          // ETH charged per swap
+}
+
+export interface SimulatedFill {
+  amountIn: number;
+  amountOut: number;
+  price: number;            // Effective ETH per token
+  gasCost: number;
+}
+
+// Fills orders against recorded pool prices and keeps the simulated balance sheet
+export class SimulatedFillEngine {
+  private eth: number;
+  private holdings: Map<string, number>;
+  private gasSpent: number;
+
+  constructor(initialEth: number, private config: FillConfig) {
+    this.eth = initialEth;
+    this.holdings = new Map();
+    this.gasSpent = 0;
+  }
+
+  getEth(): number {
+    return this.eth;
+  }
+
+  getHolding(token: string): number {
+    return this.holdings.get(token) || 0;
+  }
+
+  getHoldings(): Record<string, number> {
+    return Object.fromEntries(this.holdings);
+  }
+
+  getGasSpent(): number {
+    return this.gasSpent;
+  }
+
+  // Buys are sized in ETH, sells in tokens, matching the live executor
+  fill(type: 'buy' | 'sell', token: string, amount: number, marketPrice: number): SimulatedFill {
+    if (!(marketPrice > 0)) {
+      throw new Error(`No price for ${token}`);
+    }
+    const haircut = (1 - this.config.feeRate) * (1 - this.config.slippage);
+
+    if (type === 'buy') {
+      if (this.eth < amount + this.config.gasCost) {
+        throw new Error(`Insufficient simulated ETH: have ${this.eth}, need ${amount + this.config.gasCost}`);
+      }
+      const received = amount / marketPrice * haircut;
+      this.eth -= amount + this.config.gasCost;
+      this.holdings.set(token, this.getHolding(token) + received);
+      this.gasSpent += this.config.gasCost;
+      return { amountIn: amount, amountOut: received, price: amount / received, gasCost: this.config.gasCost };
+    }
+
+    const held = this.getHolding(token);
+    if (held < amount) {
+      throw new Error(`Insufficient simulated ${token}: have ${held}, need ${amount}`);
+    }
+    if (this.eth < this.config.gasCost) {
+      throw new Error('Insufficient simulated ETH for gas');
+    }
+    const received = amount * marketPrice * haircut;
+    this.holdings.set(token, held - amount);
+    this.eth += received - this.config.gasCost;
+    this.gasSpent += this.config.gasCost;
+    return { amountIn: amount, amountOut: received, price: received / amount, gasCost: this.config.gasCost };
+  }
+}
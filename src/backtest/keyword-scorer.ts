@@ -0,0 +1,54 @@
+import { VeniceAnalysis } from '../services/venice-ai';
+import { SentimentScorer } from '../services/twitter-sentiment';
+
+const BULLISH = [
+  'bullish', 'moon', 'pump', 'breakout', 'breaking', 'strong', 'growth', 'growing', 'upside',
+  'highs', 'rally', 'accumulate', 'buy', 'adoption', 'inflows', 'launching', 'upgrade', '🚀', '📈'
+];
+
+const BEARISH = [
+  'bearish', 'dump', 'crash', 'weak', 'weakness', 'sell', 'selling', 'rug', 'exploit', 'hack',
+  'outflows', 'downside', 'lows', 'retest', 'scam', 'dead', '📉'
+];
+
+// Deterministic stand-in for the LLM: engagement-weighted keyword counts.
+// Same tweets in, same analysis out, so backtests are reproducible.
+export class KeywordSentimentScorer implements SentimentScorer {
+  constructor(private minTweets: number = 3) {}
+
+  private score(text: string): number {
+    const lower = text.toLowerCase();
+    const bullish = BULLISH.filter(word => lower.includes(word)).length;
+    const bearish = BEARISH.filter(word => lower.includes(word)).length;
+    if (bullish + bearish === 0) return 0;
+    return (bullish - bearish) / (bullish + bearish);
+  }
+
+  async analyzeSentimentAndMarket(
+    _token: string,
+    tweets: { text: string; engagement: number }[]
+  ): Promise<VeniceAnalysis> {
+    const scored = tweets.map(tweet => ({
+      score: this.score(tweet.text),
+      weight: Math.log1p(Math.max(0, tweet.engagement))
+    }));
+    const totalWeight = scored.reduce((sum, tweet) => sum + tweet.weight, 0);
+    const sentiment = totalWeight > 0
+      ? scored.reduce((sum, tweet) => sum + tweet.score * tweet.weight, 0) / totalWeight
+      : 0;
+
+    // Confidence grows with agreement between tweets and with sample size
+    const agreeing = scored.filter(tweet => Math.sign(tweet.score) === Math.sign(sentiment) && tweet.score !== 0).length;
+    const agreement = scored.length > 0 ? agreeing / scored.length : 0;
+    const coverage = Math.min(1, tweets.length / this.minTweets);
+    const confidence = Number((agreement * coverage).toFixed(4));
+
+    return {
+      sentiment: Number(sentiment.toFixed(4)),
+      confidence,
+      reasoning: [`Keyword score over ${tweets.length} tweets, ${agreeing} agreeing`],
+      marketCondition: sentiment > 0.2 ? 'bullish' : sentiment < -0.2 ? 'bearish' : 'neutral',
+      suggestedActions: []
+    };
+  }
+}
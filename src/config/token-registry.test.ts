@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { TokenRegistry } from './token-registry';
+
+const tokens = [
+  { symbol: 'ETH', address: '0x4200000000000000000000000000000000000006', decimals: 18, riskTier: 'low', enabled: true },
+  { symbol: 'BASE', address: '0xfA980cEd6895AC314E7dE34Ef1bFAE90a5AdD21b', decimals: 18, riskTier: 'high', enabled: true },
+  { symbol: 'BTC', address: '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf', decimals: 8, riskTier: 'medium', enabled: false }
+];
+
+// Nothing here reaches the chain, so the provider is never called
+function registry(): TokenRegistry {
+  const configPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'tokens-')), 'tokens.json');
+  fs.writeFileSync(configPath, JSON.stringify({ tokens }));
+  return new TokenRegistry({} as ethers.Provider, configPath);
+}
+
+describe('TokenRegistry', () => {
+  it('recognizes the quote asset by its WETH address', () => {
+    const tokenRegistry = registry();
+    expect(tokenRegistry.isQuote('eth')).toBe(true);
+    expect(tokenRegistry.isQuote('BASE')).toBe(false);
+    expect(tokenRegistry.isQuote('UNKNOWN')).toBe(false);
+  });
+
+  it('leaves the quote asset and disabled tokens out of the tradable tokens', () => {
+    expect(registry().getTradable().map(token => token.symbol)).toEqual(['BASE']);
+  });
+
+  it('removes tokens but never the quote asset', () => {
+    const tokenRegistry = registry();
+    expect(tokenRegistry.remove('btc')).toBe(true);
+    expect(tokenRegistry.remove('BTC')).toBe(false);
+    expect(() => tokenRegistry.remove('ETH')).toThrow(/quote asset/);
+    expect(tokenRegistry.list().map(token => token.symbol)).toEqual(['ETH', 'BASE']);
+  });
+});
@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import { TokenMetadataRegistry } from '../services/token-metadata';
+
+export type RiskTier = 'low' | 'medium' | 'high';
+
+export interface TokenConfig {
+  symbol: string;
+  address: string;
+  decimals: number;
+  quotePool?: string;       // Preferred WETH pool for pricing; the deepest pool is used when absent
+  riskTier: RiskTier;
+  enabled: boolean;
+  interval?: number;        // Seconds between decision cycles; MONITORING_INTERVAL when absent
+}
+
+const RISK_TIERS: RiskTier[] = ['low', 'medium', 'high'];
+const WETH_ADDRESS = '0x4200000000000000000000000000000000000006';
+
+const POOL_ABI = [
+  'function token0() external view returns (address)',
+  'function token1() external view returns (address)'
+];
+
+export class TokenRegistry {
+  private logger: Logger;
+  private provider: ethers.Provider;
+  private metadata: TokenMetadataRegistry;
+  private tokens: Map<string, TokenConfig>;
+
+  constructor(provider: ethers.Provider, private configPath: string) {
+    this.logger = createLogger('TokenRegistry');
+    this.provider = provider;
+    this.metadata = new TokenMetadataRegistry(provider);
+    this.tokens = new Map();
+    this._load();
+  }
+
+  private _load() {
+    const raw = JSON.parse(fs.readFileSync(this.configPath, 'utf8'));
+    if (!Array.isArray(raw.tokens)) {
+      throw new Error(`Token config ${this.configPath} must contain a "tokens" array`);
+    }
+
+    for (const entry of raw.tokens) {
+      const token = this._parseEntry(entry);
+      this.tokens.set(token.symbol, token);
+    }
+
+    this.logger.info('Loaded token registry', {
+      configPath: this.configPath,
+      tokens: Array.from(this.tokens.keys())
+    });
+  }
+
+  private _parseEntry(entry: Record<string, unknown>): TokenConfig {
+    const symbol = String(entry.symbol || '').toUpperCase();
+    if (!symbol) {
+      throw new Error('Token entry is missing a symbol');
+    }
+    if (typeof entry.address !== 'string' || !ethers.isAddress(entry.address)) {
+      throw new Error(`Token ${symbol} has an invalid address`);
+    }
+    const decimals = entry.decimals;
+    if (typeof decimals !== 'number' || !Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+      throw new Error(`Token ${symbol} has invalid decimals`);
+    }
+    const riskTier = entry.riskTier as RiskTier;
+    if (!RISK_TIERS.includes(riskTier)) {
+      throw new Error(`Token ${symbol} has invalid risk tier '${entry.riskTier}'`);
+    }
+    const quotePool = entry.quotePool;
+    if (quotePool !== undefined && (typeof quotePool !== 'string' || !ethers.isAddress(quotePool))) {
+      throw new Error(`Token ${symbol} has an invalid quote pool address`);
+    }
+    if (entry.interval !== undefined && !(Number(entry.interval) > 0)) {
+      throw new Error(`Token ${symbol} has an invalid interval`);
+    }
+
+    return {
+      symbol,
+      address: ethers.getAddress(entry.address),
+      decimals,
+      quotePool: quotePool ? ethers.getAddress(quotePool) : undefined,
+      riskTier,
+      enabled: entry.enabled !== false,
+      interval: entry.interval !== undefined ? Number(entry.interval) : undefined
+    };
+  }
+
+  private _save() {
+    const tokens = Array.from(this.tokens.values());
+    const temp = `${this.configPath}.tmp`;
+    fs.mkdirSync(path.dirname(this.configPath), { recursive: true });
+    fs.writeFileSync(temp, JSON.stringify({ tokens }, null, 2) + '\n');
+    fs.renameSync(temp, this.configPath);
+  }
+
+  // Returns a list of problems; an empty list means the entry matches the chain
+  async checkOnChain(token: TokenConfig): Promise<string[]> {
+    const problems: string[] = [];
+
+    const code = await this.provider.getCode(token.address);
+    if (code === '0x') {
+      return [`No contract deployed at ${token.address}`];
+    }
+
+    try {
+      const decimals = await this.metadata.getDecimals(token.address);
+      if (decimals !== token.decimals) {
+        problems.push(`Configured decimals ${token.decimals} but contract reports ${decimals}`);
+      }
+    } catch (error) {
+      problems.push('Contract does not implement decimals()');
+    }
+
+    if (token.quotePool) {
+      try {
+        const pool = new ethers.Contract(token.quotePool, POOL_ABI, this.provider);
+        const pair = [await pool.token0(), await pool.token1()].map((a: string) => a.toLowerCase());
+        if (!pair.includes(token.address.toLowerCase()) || !pair.includes(WETH_ADDRESS.toLowerCase())) {
+          problems.push(`Quote pool ${token.quotePool} is not a ${token.symbol}/WETH pool`);
+        }
+      } catch (error) {
+        problems.push(`Quote pool ${token.quotePool} is not a Uniswap V3 pool`);
+      }
+    }
+
+    return problems;
+  }
+
+  // Disables any enabled token whose config does not match the chain
+  async validate(): Promise<Record<string, string[]>> {
+    const failures: Record<string, string[]> = {};
+
+    for (const token of this.tokens.values()) {
+      if (!token.enabled) continue;
+
+      try {
+        const problems = await this.checkOnChain(token);
+        if (problems.length > 0) {
+          failures[token.symbol] = problems;
+          token.enabled = false;
+          this.logger.error('Token failed validation, disabling', { symbol: token.symbol, problems });
+        }
+      } catch (error) {
+        this.logger.error('Error validating token', { error, symbol: token.symbol });
+      }
+    }
+
+    this.logger.info('Token registry validated', {
+      enabled: this.getEnabled().map(t => t.symbol),
+      disabled: Object.keys(failures)
+    });
+    return failures;
+  }
+
+  get(symbol: string): TokenConfig | undefined {
+    return this.tokens.get(symbol.toUpperCase());
+  }
+
+  getAddress(symbol: string): string | undefined {
+    return this.get(symbol)?.address;
+  }
+
+  list(): TokenConfig[] {
+    return Array.from(this.tokens.values());
+  }
+
+  getEnabled(): TokenConfig[] {
+    return this.list().filter(token => token.enabled);
+  }
+
+  // The quote asset (WETH) prices and funds every trade but is never traded against itself
+  isQuote(symbol: string): boolean {
+    return this.getAddress(symbol)?.toLowerCase() === WETH_ADDRESS.toLowerCase();
+  }
+
+  // Enabled tokens the decision pipeline may trade
+  getTradable(): TokenConfig[] {
+    return this.getEnabled().filter(token => !this.isQuote(token.symbol));
+  }
+
+  getAddressMap(): Record<string, string> {
+    const addresses: Record<string, string> = {};
+    for (const token of this.tokens.values()) {
+      addresses[token.symbol] = token.address;
+    }
+    return addresses;
+  }
+
+  async add(entry: Omit<TokenConfig, 'decimals'> & { decimals?: number }): Promise<TokenConfig> {
+    const symbol = entry.symbol.toUpperCase();
+    if (this.tokens.has(symbol)) {
+      throw new Error(`Token ${symbol} is already registered`);
+    }
+
+    const decimals = entry.decimals ?? await this.metadata.getDecimals(entry.address);
+    const token = this._parseEntry({ ...entry, symbol, decimals });
+    const problems = await this.checkOnChain(token);
+    if (problems.length > 0) {
+      throw new Error(`Token ${symbol} failed validation: ${problems.join('; ')}`);
+    }
+
+    this.tokens.set(symbol, token);
+    this._save();
+    this.logger.info('Token added', { token });
+    return token;
+  }
+
+  async setEnabled(symbol: string, enabled: boolean): Promise<TokenConfig> {
+    const token = this.get(symbol);
+    if (!token) {
+      throw new Error(`Unknown token ${symbol}`);
+    }
+
+    if (enabled) {
+      const problems = await this.checkOnChain(token);
+      if (problems.length > 0) {
+        throw new Error(`Token ${token.symbol} failed validation: ${problems.join('; ')}`);
+      }
+    }
+
+    token.enabled = enabled;
+    this._save();
+    this.logger.info(enabled ? 'Token enabled' : 'Token disabled', { symbol: token.symbol });
+    return token;
+  }
+
+  // Callers must make sure no position is open in the token; exits and sweeps resolve it here
+  remove(symbol: string): boolean {
+    if (this.isQuote(symbol)) {
+      throw new Error(`Token ${symbol.toUpperCase()} is the quote asset and cannot be removed`);
+    }
+    const removed = this.tokens.delete(symbol.toUpperCase());
+    if (removed) {
+      this._save();
+      this.logger.info('Token removed', { symbol: symbol.toUpperCase() });
+    }
+    return removed;
+  }
+}
+
+// Services in one process share a registry per config file so runtime edits are seen everywhere
+const registries: Map<string, TokenRegistry> = new Map();
+
+export function getTokenRegistry(provider: ethers.Provider, configPath: string): TokenRegistry {
+  const key = path.resolve(configPath);
+  if (!registries.has(key)) {
+    registries.set(key, new TokenRegistry(provider, key));
+  }
+  return registries.get(key)!;
+}
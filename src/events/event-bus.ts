@@ -0,0 +1,149 @@
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import type { MarketAnalysis } from '../services/twitter-sentiment';
+import type { EvaluationParams, EvaluationResult } from '../ai/judge';
+import type { Trade } from '../services/agent-spawner';
+import type { SpawnedAgent } from '../factory/autonome-factory';
+import type { AgentMetrics, HealthStatus } from '../health/killswitch';
+import type { RuleViolation } from '../health/rules';
+import type { TradeRequest } from '../runtime/templates';
+import type { SweepResult } from '../factory/agent-funding';
+
+// Every event and its payload. Publishers and subscribers are checked against this map.
+export interface EventMap {
+  AnalysisCompleted: {
+    token: string;
+    analysis: MarketAnalysis;
+  };
+  OpportunityJudged: {
+    params: EvaluationParams;
+    evaluation: EvaluationResult;
+  };
+  TradeSubmitted: {
+    trade: Trade;
+  };
+  TradeConfirmed: {
+    trade: Trade;
+    agentIds: string[];         // Agents trading the token when the trade settled
+  };
+  TradeFailed: {
+    trade: Trade;
+    agentIds: string[];
+  };
+  AgentSpawned: {
+    agent: SpawnedAgent;
+  };
+  AgentHeartbeat: {
+    agentId: string;
+    timestamp: number;
+    status: Record<string, any>;
+  };
+  AgentTradeRequested: {
+    agentId: string;
+    requestId: string;
+    request: TradeRequest;
+  };
+  AgentRuntimeExited: {
+    agentId: string;
+    runtime: string;
+    code: number;
+  };
+  AgentHealthChecked: {
+    agentId: string;
+    health: HealthStatus;
+  };
+  AgentPaused: {
+    agentId: string;
+    reason: string;
+    violations: RuleViolation[];
+  };
+  AgentResumed: {
+    agentId: string;
+  };
+  AgentKilled: {
+    agentId: string;
+    reason: string;
+    metrics: AgentMetrics;
+    recovery?: SweepResult;     // Funds returned to the treasury; absent when no sweeper is configured
+  };
+}
+
+export type EventName = keyof EventMap;
+
+export interface BusEvent<K extends EventName = EventName> {
+  name: K;
+  payload: EventMap[K];
+  timestamp: number;
+}
+
+export type EventHandler<K extends EventName> = (payload: EventMap[K], event: BusEvent<K>) => void | Promise<void>;
+
+type AnyHandler = (event: BusEvent) => void | Promise<void>;
+
+// In-process publish/subscribe. A failing subscriber is logged and never breaks the publisher
+// or the other subscribers; publish resolves once every handler has finished.
+export class EventBus {
+  private logger: Logger;
+  private handlers: Map<EventName, Set<EventHandler<any>>>;
+  private anyHandlers: Set<AnyHandler>;
+
+  constructor() {
+    this.logger = createLogger('EventBus');
+    this.handlers = new Map();
+    this.anyHandlers = new Set();
+  }
+
+  // Returns a function that removes the subscription
+  on<K extends EventName>(name: K, handler: EventHandler<K>): () => void {
+    if (!this.handlers.has(name)) {
+      this.handlers.set(name, new Set());
+    }
+    this.handlers.get(name)!.add(handler);
+    return () => this.handlers.get(name)?.delete(handler);
+  }
+
+  once<K extends EventName>(name: K, handler: EventHandler<K>): () => void {
+    const off = this.on(name, async (payload, event) => {
+      off();
+      await handler(payload, event);
+    });
+    return off;
+  }
+
+  // Receives every event, e.g. for metrics or streaming to the API
+  onAny(handler: AnyHandler): () => void {
+    this.anyHandlers.add(handler);
+    return () => this.anyHandlers.delete(handler);
+  }
+
+  async publish<K extends EventName>(name: K, payload: EventMap[K]): Promise<void> {
+    const event: BusEvent<K> = { name, payload, timestamp: Date.now() };
+    const handlers = [
+      ...Array.from(this.handlers.get(name) || []).map(handler => () => handler(payload, event)),
+      ...Array.from(this.anyHandlers).map(handler => () => handler(event as BusEvent))
+    ];
+
+    this.logger.debug('Publishing event', { name, subscribers: handlers.length });
+    await Promise.all(handlers.map(async handler => {
+      try {
+        await handler();
+      } catch (error) {
+        this.logger.error('Event handler failed', { error, name });
+      }
+    }));
+  }
+
+  listenerCount(name: EventName): number {
+    return (this.handlers.get(name)?.size || 0) + this.anyHandlers.size;
+  }
+}
+
+// Modules publish to one shared bus unless they are handed their own, e.g. in backtests
+let sharedBus: EventBus | null = null;
+
+export function getEventBus(): EventBus {
+  if (!sharedBus) {
+    sharedBus = new EventBus();
+  }
+  return sharedBus;
+}
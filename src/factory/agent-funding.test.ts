@@ -0,0 +1,119 @@
+import { ethers } from 'ethers';
+import { AgentFunder, FundingLeg, FundingTransfer } from './agent-funding';
+import { AgentWallets } from './agent-wallets';
+import type { StateRepository } from '../store/state-store';
+
+const ETH = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+const MNEMONIC = 'test test test test test test test test test test test junk';
+
+const eth = (value: number): FundingLeg => ({
+  token: 'ETH',
+  tokenAddress: ETH,
+  amount: value.toString(),
+  raw: ethers.parseEther(value.toString()),
+  value
+});
+
+function setup(limits = { maxPerAgent: 1, maxTotal: 2 }) {
+  const saved: FundingTransfer[] = [];
+  const store = { saveFunding: async (transfer: FundingTransfer) => { saved.push(transfer); } } as unknown as StateRepository;
+  const transfer = jest.fn(async () => '0xhash');
+  const funder = new AgentFunder(new AgentWallets(MNEMONIC), transfer, store, limits);
+  return { funder, transfer, saved };
+}
+
+const fund = (toIndex: number, value: number, fromIndex: number = 0) => ({
+  source: fromIndex === 0 ? 'treasury' as const : 'parent' as const,
+  fromIndex,
+  toIndex,
+  purpose: 'test',
+  legs: [eth(value)]
+});
+
+describe('AgentFunder', () => {
+  it('transfers and records each leg', async () => {
+    const { funder, transfer, saved } = setup();
+    const [record] = await funder.fund(fund(1, 0.5));
+
+    expect(transfer).toHaveBeenCalledWith(0, 1, ETH, ethers.parseEther('0.5'));
+    expect(record).toMatchObject({ source: 'treasury', toIndex: 1, status: 'confirmed', txHash: '0xhash', value: 0.5 });
+    expect(saved).toEqual([record]);
+    expect(funder.netFunding(1)).toBe(0.5);
+  });
+
+  it('enforces the per-agent cap on net funding', async () => {
+    const { funder, transfer } = setup();
+    await funder.fund(fund(1, 0.8));
+
+    expect(funder.check(1, 0.3)).toMatch(/per-agent cap/);
+    await expect(funder.fund(fund(1, 0.3))).rejects.toThrow(/per-agent cap/);
+    expect(transfer).toHaveBeenCalledTimes(1);
+    expect(funder.check(1, 0.2)).toBeNull();
+  });
+
+  it('enforces the aggregate cap across live agents until they are released', async () => {
+    const { funder } = setup();
+    await funder.fund(fund(1, 1));
+    await funder.fund(fund(2, 0.8));
+
+    expect(funder.totalFunding()).toBeCloseTo(1.8);
+    expect(funder.check(3, 0.5)).toMatch(/aggregate cap/);
+
+    funder.release(1);
+    expect(funder.totalFunding()).toBeCloseTo(0.8);
+    expect(funder.check(3, 0.5)).toBeNull();
+  });
+
+  it('nets out what a parent passes on to a child', async () => {
+    const { funder } = setup();
+    await funder.fund(fund(1, 1));
+    await funder.fund(fund(2, 0.4, 1));
+
+    expect(funder.netFunding(1)).toBeCloseTo(0.6);
+    expect(funder.netFunding(2)).toBeCloseTo(0.4);
+    expect(funder.totalFunding()).toBeCloseTo(1);
+    expect(funder.history(1)).toHaveLength(2);
+    expect(funder.history(2)).toHaveLength(1);
+  });
+
+  it('does not count failed transfers and rethrows their error', async () => {
+    const { funder, transfer, saved } = setup();
+    transfer.mockRejectedValueOnce(new Error('insufficient funds'));
+
+    await expect(funder.fund(fund(1, 0.5))).rejects.toThrow('insufficient funds');
+    expect(saved[0]).toMatchObject({ status: 'failed', reason: 'insufficient funds' });
+    expect(funder.netFunding(1)).toBe(0);
+  });
+
+  it('refuses to fund a wallet from itself', async () => {
+    const { funder } = setup();
+    await expect(funder.fund(fund(1, 0.1, 1))).rejects.toThrow(/itself/);
+  });
+
+  it('recovers assets without applying the caps, to the treasury by default', async () => {
+    const { funder, transfer } = setup({ maxPerAgent: 1, maxTotal: 1 });
+    await funder.fund(fund(1, 1));
+
+    const [sweep] = await funder.recover(1, 'agent-1', [eth(0.9)]);
+    expect(sweep).toMatchObject({ source: 'sweep', fromIndex: 1, toIndex: 0, purpose: 'Termination sweep' });
+    expect(funder.netFunding(1)).toBeCloseTo(0.1);
+
+    await funder.fund(fund(2, 0.5, 1));
+    await funder.recover(2, undefined, [eth(0.5)], 'Unused funding', 1);
+    expect(transfer).toHaveBeenLastCalledWith(2, 1, ETH, ethers.parseEther('0.5'));
+    expect(funder.netFunding(2)).toBe(0);
+    await expect(funder.recover(0, undefined, [eth(0.1)])).rejects.toThrow();
+  });
+
+  it('restores the ledger and released wallets', () => {
+    const { funder } = setup();
+    const transfer: FundingTransfer = {
+      id: 'fund-1', source: 'treasury', fromIndex: 0, from: '', toIndex: 1, to: '', purpose: 'test',
+      token: 'ETH', tokenAddress: ETH, amount: '0.7', value: 0.7, status: 'confirmed', timestamp: 0
+    };
+    funder.restore([transfer, { ...transfer, id: 'fund-2', toIndex: 2 }], [2]);
+
+    expect(funder.netFunding(1)).toBe(0.7);
+    expect(funder.totalFunding()).toBe(0.7);
+  });
+});
@@ -0,0 +1,215 @@
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import { AgentWallets } from './agent-wallets';
+import type { StateRepository } from '../store/state-store';
+
+export type FundingSource = 'treasury' | 'parent';
+
+// What happens to a terminated agent's token holdings: sold back to ETH, or handed to the treasury as-is
+export type TerminationPolicy = 'unwind' | 'hold';
+
+export interface FundingLimits {
+  maxPerAgent: number;          // ETH value one agent wallet may be funded with, net of what it passed on
+  maxTotal: number;             // ETH value funded across all live agent wallets
+}
+
+// One asset to move; amounts are resolved by the caller so this module stays chain-agnostic
+export interface FundingLeg {
+  token: string;                // Symbol, ETH for native ether
+  tokenAddress: string;
+  amount: string;               // Whole units
+  raw: bigint;
+  value: number;                // ETH value at transfer time, what the caps count
+}
+
+export interface FundingRequest {
+  source: FundingSource | 'sweep';
+  fromIndex: number;            // 0 for the treasury, the parent's index otherwise
+  toIndex: number;
+  agentId?: string;             // Unknown while funding a wallet for an agent not yet spawned
+  purpose: string;
+  legs: FundingLeg[];
+}
+
+export interface FundingTransfer {
+  id: string;
+  source: FundingSource | 'sweep';  // Sweeps return a terminated or never-spawned agent's assets
+  fromIndex: number;
+  from: string;
+  toIndex: number;
+  to: string;
+  agentId?: string;
+  purpose: string;
+  token: string;
+  tokenAddress: string;
+  amount: string;
+  value: number;
+  status: 'confirmed' | 'failed';
+  txHash?: string;
+  reason?: string;
+  timestamp: number;
+}
+
+// What a terminated agent's wallet gave back
+export interface SweepResult {
+  policy: TerminationPolicy;
+  unwound: { token: string; amount: string; tradeId: string }[];
+  transfers: FundingTransfer[];
+  recovered: Record<string, string>;  // Symbol -> amount returned to the treasury
+  recoveredValue: number;             // ETH value of the recovered assets
+  leftForGas: string;                 // ETH left behind in the agent's wallet
+  completedAt: number;
+}
+
+// Moves one asset between derived wallets and resolves with the hash once it is confirmed
+export type TransferFn = (fromIndex: number, toIndex: number, tokenAddress: string, amount: bigint) => Promise<string>;
+
+// Moves capital from the treasury or a parent agent into agent wallets, enforcing the caps
+// and recording every transfer so each agent's capital can be reconciled against the chain.
+export class AgentFunder {
+  private logger: Logger;
+  private transfers: FundingTransfer[];
+  private released: Set<number>;    // Indices of terminated agents, no longer counted against the total
+
+  constructor(
+    private wallets: AgentWallets,
+    private transfer: TransferFn,
+    private store: StateRepository,
+    private limits: FundingLimits
+  ) {
+    this.logger = createLogger('AgentFunder');
+    this.transfers = [];
+    this.released = new Set();
+  }
+
+  restore(transfers: FundingTransfer[], released: number[]) {
+    this.transfers = [...transfers];
+    released.forEach(index => this.released.add(index));
+  }
+
+  // Returns why funding `value` ETH into the wallet would break a cap, or null if it fits
+  check(toIndex: number, value: number): string | null {
+    const agent = this.netFunding(toIndex) + value;
+    if (agent > this.limits.maxPerAgent) {
+      return `Funding would bring wallet ${toIndex} to ${agent.toFixed(6)} ETH, above the per-agent cap of ${this.limits.maxPerAgent}`;
+    }
+    const total = this.totalFunding() + value;
+    if (total > this.limits.maxTotal) {
+      return `Funding would bring live agents to ${total.toFixed(6)} ETH, above the aggregate cap of ${this.limits.maxTotal}`;
+    }
+    return null;
+  }
+
+  // Transfers each leg in turn, waiting for confirmation; stops at the first failure
+  async fund(request: FundingRequest): Promise<FundingTransfer[]> {
+    if (request.fromIndex === request.toIndex) {
+      throw new Error(`Cannot fund wallet ${request.toIndex} from itself`);
+    }
+    const value = request.legs.reduce((sum, leg) => sum + leg.value, 0);
+    const violation = this.check(request.toIndex, value);
+    if (violation) {
+      throw new Error(violation);
+    }
+    return this._execute(request);
+  }
+
+  // Returns assets from an agent wallet to the treasury, or to the parent that funded it; caps do not apply
+  async recover(
+    fromIndex: number,
+    agentId: string | undefined,
+    legs: FundingLeg[],
+    purpose: string = 'Termination sweep',
+    toIndex: number = 0
+  ): Promise<FundingTransfer[]> {
+    if (fromIndex === 0 || fromIndex === toIndex) {
+      throw new Error(`Cannot sweep wallet ${fromIndex} into wallet ${toIndex}`);
+    }
+    return this._execute({ source: 'sweep', fromIndex, toIndex, agentId, purpose, legs });
+  }
+
+  private async _execute(request: FundingRequest): Promise<FundingTransfer[]> {
+    const from = this.wallets.derive(request.fromIndex).address;
+    const to = this.wallets.derive(request.toIndex).address;
+    const completed: FundingTransfer[] = [];
+
+    for (const leg of request.legs) {
+      const record: FundingTransfer = {
+        id: `${request.source === 'sweep' ? `sweep-${request.fromIndex}` : `fund-${request.toIndex}`}-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+        source: request.source,
+        fromIndex: request.fromIndex,
+        from,
+        toIndex: request.toIndex,
+        to,
+        agentId: request.agentId,
+        purpose: request.purpose,
+        token: leg.token,
+        tokenAddress: leg.tokenAddress,
+        amount: leg.amount,
+        value: leg.value,
+        status: 'confirmed',
+        timestamp: Date.now()
+      };
+
+      this.logger.info(request.source === 'sweep' ? 'Sweeping agent wallet' : 'Funding agent wallet', {
+        source: request.source,
+        from,
+        to,
+        token: leg.token,
+        amount: leg.amount,
+        purpose: request.purpose
+      });
+
+      try {
+        record.txHash = await this.transfer(request.fromIndex, request.toIndex, leg.tokenAddress, leg.raw);
+      } catch (error) {
+        record.status = 'failed';
+        record.reason = error instanceof Error ? error.message : String(error);
+        await this.record(record);
+        throw error;
+      }
+
+      await this.record(record);
+      completed.push(record);
+    }
+
+    return completed;
+  }
+
+  // Confirmed value received by the wallet minus what it passed on, e.g. to a child agent
+  netFunding(index: number): number {
+    if (index === 0) return 0;
+    return this.transfers.reduce((sum, transfer) => {
+      if (transfer.status !== 'confirmed') return sum;
+      if (transfer.toIndex === index) return sum + transfer.value;
+      if (transfer.fromIndex === index) return sum - transfer.value;
+      return sum;
+    }, 0);
+  }
+
+  totalFunding(): number {
+    const indices = new Set(this.transfers.map(transfer => transfer.toIndex));
+    return Array.from(indices)
+      .filter(index => index !== 0 && !this.released.has(index))
+      .reduce((sum, index) => sum + this.netFunding(index), 0);
+  }
+
+  // Called when an agent terminates or never spawns; its funding no longer counts against the aggregate cap
+  release(index: number) {
+    this.released.add(index);
+  }
+
+  history(index?: number): FundingTransfer[] {
+    return index === undefined
+      ? [...this.transfers]
+      : this.transfers.filter(transfer => transfer.toIndex === index || transfer.fromIndex === index);
+  }
+
+  getLimits(): FundingLimits {
+    return { ...this.limits };
+  }
+
+  private async record(transfer: FundingTransfer) {
+    this.transfers.push(transfer);
+    await this.store.saveFunding(transfer);
+  }
+}
@@ -0,0 +1,51 @@
+import { ethers } from 'ethers';
+
+// Standard Ethereum account path; index 0 is the treasury, agents start at 1
+export const WALLET_DERIVATION_PATH = "m/44'/60'/0'/0";
+
+// Derives every agent wallet from the treasury mnemonic so any agent's key can be
+// rebuilt from its recorded derivation index, e.g. after a restart.
+export class AgentWallets {
+  private root: ethers.HDNodeWallet;
+  private used: Set<number>;
+  private addresses: Map<string, number>;   // lowercase address -> index
+
+  constructor(mnemonic: string, private provider?: ethers.Provider) {
+    this.root = ethers.HDNodeWallet.fromPhrase(mnemonic, undefined, WALLET_DERIVATION_PATH);
+    this.used = new Set([0]);
+    this.addresses = new Map([[this.root.deriveChild(0).address.toLowerCase(), 0]]);
+  }
+
+  derive(index: number): ethers.HDNodeWallet {
+    if (!Number.isInteger(index) || index < 0) {
+      throw new Error(`Invalid derivation index ${index}`);
+    }
+    const wallet = this.root.deriveChild(index);
+    this.addresses.set(wallet.address.toLowerCase(), index);
+    return this.provider ? wallet.connect(this.provider) : wallet;
+  }
+
+  treasury(): ethers.HDNodeWallet {
+    return this.derive(0);
+  }
+
+  // Hands out the next index that has never been used, including by terminated agents
+  allocate(): number {
+    let index = 1;
+    while (this.used.has(index)) {
+      index++;
+    }
+    this.reserve(index);
+    return index;
+  }
+
+  // Marks an index restored from persisted state as taken
+  reserve(index: number): void {
+    this.used.add(index);
+    this.derive(index);
+  }
+
+  indexOf(address: string): number | undefined {
+    return this.addresses.get(address.toLowerCase());
+  }
+}
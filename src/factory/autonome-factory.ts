@@ -1,48 +1,80 @@
 import { ethers } from 'ethers';
 import { Logger } from 'winston';
 import { createLogger } from '../utils/logger';
+import { EventBus, getEventBus } from '../events/event-bus';
+import { AgentWallets } from './agent-wallets';
+import { FundingSource } from './agent-funding';
+import { DeploymentAdapter, DeploymentInfo, RuntimeCommand } from '../runtime/deployment';
+import { TemplateConfig, TemplateState } from '../runtime/templates';
 
 export interface AgentConfig {
   template: string;
   config: {
     capital: number;
     targetPool: string;
-    maxSlippage: number;
+    maxSlippage: number;        // Percent
+    tradeTxHash?: string;
+    [param: string]: number | string | undefined;  // Template parameters, validated against its schema
   };
-  funding: 'treasury' | 'parent';
+  funding: FundingSource;
+  parentId?: string;            // Agent whose wallet funded this one
 }
 
 export interface SpawnedAgent {
   id: string;
   address: string;
+  derivationIndex: number;    // Child of the treasury mnemonic the agent's key is derived at
   config: AgentConfig;
   deployedAt: number;
+  deployment?: DeploymentInfo;  // Where the agent's loop is running now
+}
+
+// Market the agent trades and where its template loop picks up
+export interface DeploymentContext {
+  token: string;
+  tokenAddress: string;
+  state: TemplateState;
+}
+
+export interface AgentNotification {
+  type: 'position-closed';
+  token: string;
+  reason: string;
+  detail: string;
+  tradeId: string;
+  txHash: string;
+  realizedPnl?: string;
 }
 
 export class AgentFactory {
   private logger: Logger;
   private provider: ethers.JsonRpcProvider;
 
-  constructor(rpcUrl: string) {
+  constructor(
+    private rpcUrl: string,
+    private wallets: AgentWallets,
+    private deployment: DeploymentAdapter,
+    private events: EventBus = getEventBus()
+  ) {
     this.logger = createLogger('AgentFactory');
     this.provider = new ethers.JsonRpcProvider(rpcUrl);
   }
 
-  async spawn(config: AgentConfig): Promise<SpawnedAgent> {
-    this.logger.info('Spawning new agent', { config });
+  // The wallet at `derivationIndex` has already been funded and made the agent's first trade
+  async spawn(config: AgentConfig, derivationIndex: number, context: DeploymentContext): Promise<SpawnedAgent> {
+    this.logger.info('Spawning new agent', { config, derivationIndex });
 
     try {
-      // Implement agent spawning logic here
-      // This is a placeholder implementation
       const agent: SpawnedAgent = {
         id: `agent-${Date.now()}`,
-        address: ethers.Wallet.createRandom().address,
+        address: this.wallets.derive(derivationIndex).address,
+        derivationIndex,
         config,
         deployedAt: Date.now()
       };
 
-      await this._deployOnAutonome(agent);
-      await this._fundAgent(agent);
+      await this.deploy(agent, context);
+      await this.events.publish('AgentSpawned', { agent });
 
       return agent;
     } catch (error) {
@@ -51,16 +83,49 @@ export class AgentFactory {
     }
   }
 
-  private async _deployOnAutonome(agent: SpawnedAgent): Promise<void> {
-    // Implement deployment logic
-    this.logger.info('Deploying agent on Autonome', { agentId: agent.id });
+  // Starts (or restarts after a reboot) the agent's template loop on the configured runtime
+  async deploy(agent: SpawnedAgent, context: DeploymentContext): Promise<DeploymentInfo> {
+    // The loop only reads numeric parameters; the pool and opening trade hash stay with the host
+    const params: TemplateConfig = {};
+    for (const [param, value] of Object.entries(agent.config.config)) {
+      if (typeof value === 'number') {
+        params[param] = value;
+      }
+    }
+    agent.deployment = await this.deployment.deploy({
+      agentId: agent.id,
+      template: agent.config.template,
+      token: context.token,
+      tokenAddress: context.tokenAddress,
+      address: agent.address,
+      params,
+      state: context.state,
+      rpcUrl: this.rpcUrl,
+      tickInterval: Number(process.env.AGENT_TICK_INTERVAL) || 60 * 1000,
+      heartbeatInterval: Number(process.env.AGENT_HEARTBEAT_INTERVAL) || 30 * 1000
+    });
+    this.logger.info('Agent deployed', { agentId: agent.id, deployment: agent.deployment });
+    return agent.deployment;
   }
 
-  private async _fundAgent(agent: SpawnedAgent): Promise<void> {
-    // Implement funding logic
-    this.logger.info('Funding agent', { 
-      agentId: agent.id, 
-      amount: agent.config.config.capital 
-    });
+  async notify(agent: SpawnedAgent, notification: AgentNotification): Promise<void> {
+    await this.send(agent, { type: 'notification', notification });
+  }
+
+  async send(agent: SpawnedAgent, command: RuntimeCommand): Promise<void> {
+    try {
+      await this.deployment.send(agent.id, command);
+    } catch (error) {
+      this.logger.error('Error messaging agent', { error, agentId: agent.id, command: command.type });
+    }
   }
-} 
\ No newline at end of file
+
+  async stop(agent: SpawnedAgent): Promise<void> {
+    try {
+      await this.deployment.stop(agent.id);
+      this.logger.info('Agent stopped', { agentId: agent.id });
+    } catch (error) {
+      this.logger.error('Error stopping agent', { error, agentId: agent.id });
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { EquityCurve } from './equity-curve';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('EquityCurve', () => {
+  it('starts at the baseline', () => {
+    const curve = new EquityCurve(1);
+    expect(curve.latest()).toBe(1);
+    expect(curve.peak()).toBe(1);
+    expect(curve.drawdown()).toBe(0);
+    expect(curve.maxDrawdown()).toBe(0);
+  });
+
+  it('tracks the peak, the current drawdown and the largest drawdown', () => {
+    const curve = new EquityCurve(1);
+    [1.2, 0.9, 1.5, 1.35].forEach((value, i) => curve.record(value, i * HOUR));
+
+    expect(curve.peak()).toBe(1.5);
+    expect(curve.drawdown()).toBeCloseTo(10);
+    expect(curve.maxDrawdown()).toBeCloseTo(25);
+  });
+
+  it('counts a fall below the baseline as drawdown', () => {
+    const curve = new EquityCurve(1);
+    curve.record(0.8, 0);
+    expect(curve.maxDrawdown()).toBeCloseTo(20);
+  });
+
+  it('rejects negative and non-finite values', () => {
+    const curve = new EquityCurve(1);
+    expect(curve.record(-1)).toBeNull();
+    expect(curve.record(NaN)).toBeNull();
+    expect(curve.getSamples()).toEqual([]);
+  });
+
+  it('reports no volatility until it has enough samples', () => {
+    const curve = new EquityCurve(1);
+    [1, 1.1, 1, 1.1].forEach((value, i) => curve.record(value, i * HOUR));
+    expect(curve.volatility()).toBeNull();
+
+    curve.record(1, 4 * HOUR);
+    expect(curve.volatility()).toBeGreaterThan(0);
+  });
+
+  it('reports zero volatility for a flat curve', () => {
+    const curve = new EquityCurve(1);
+    for (let i = 0; i < 5; i++) curve.record(1, i * HOUR);
+    expect(curve.volatility()).toBe(0);
+  });
+
+  it('keeps only the latest samples', () => {
+    const curve = new EquityCurve(1, [], 3);
+    for (let i = 0; i < 5; i++) curve.record(1 + i, i * HOUR);
+
+    expect(curve.getSamples().map(sample => sample.value)).toEqual([3, 4, 5]);
+    expect(curve.getSamples(4 * HOUR)).toEqual([{ timestamp: 4 * HOUR, value: 5 }]);
+  });
+});
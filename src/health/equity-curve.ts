@@ -0,0 +1,78 @@
+export interface EquitySample {
+  timestamp: number;
+  value: number;            // ETH, wallet balance plus token holdings marked to oracle prices, net of funding flows
+}
+
+const YEAR = 365 * 24 * 60 * 60 * 1000;
+
+// An agent's marked-to-market value over time, the basis for its drawdown and volatility
+export class EquityCurve {
+  private samples: EquitySample[];
+
+  constructor(
+    private baseline: number,               // Capital the agent started with, the first peak
+    samples: EquitySample[] = [],
+    private maxSamples: number = 2000
+  ) {
+    this.samples = samples.slice(-maxSamples);
+  }
+
+  record(value: number, timestamp: number = Date.now()): EquitySample | null {
+    if (!Number.isFinite(value) || value < 0) return null;
+
+    const sample = { timestamp, value };
+    this.samples.push(sample);
+    if (this.samples.length > this.maxSamples) {
+      this.samples.splice(0, this.samples.length - this.maxSamples);
+    }
+    return sample;
+  }
+
+  latest(): number {
+    return this.samples.length > 0 ? this.samples[this.samples.length - 1].value : this.baseline;
+  }
+
+  peak(): number {
+    return this.samples.reduce((peak, sample) => Math.max(peak, sample.value), this.baseline);
+  }
+
+  // Percent below the running peak right now
+  drawdown(): number {
+    const peak = this.peak();
+    return peak > 0 ? (peak - this.latest()) / peak * 100 : 0;
+  }
+
+  // Largest peak-to-trough fall over the curve, percent
+  maxDrawdown(): number {
+    let peak = this.baseline;
+    let maxDrawdown = 0;
+    for (const sample of this.samples) {
+      peak = Math.max(peak, sample.value);
+      maxDrawdown = Math.max(maxDrawdown, peak > 0 ? (peak - sample.value) / peak * 100 : 0);
+    }
+    return maxDrawdown;
+  }
+
+  // Annualized volatility of log returns, normalized for uneven sample spacing as in PriceHistory.
+  // Returns null until there are enough samples to say anything.
+  volatility(minSamples: number = 5): number | null {
+    if (this.samples.length < minSamples) return null;
+
+    let variance = 0;
+    let elapsed = 0;
+    for (let i = 1; i < this.samples.length; i++) {
+      const dt = this.samples[i].timestamp - this.samples[i - 1].timestamp;
+      if (dt <= 0 || !(this.samples[i - 1].value > 0) || !(this.samples[i].value > 0)) continue;
+      const logReturn = Math.log(this.samples[i].value / this.samples[i - 1].value);
+      variance += logReturn * logReturn;
+      elapsed += dt;
+    }
+
+    if (elapsed === 0) return null;
+    return Math.sqrt(variance / elapsed * YEAR);
+  }
+
+  getSamples(since: number = 0): EquitySample[] {
+    return this.samples.filter(sample => sample.timestamp >= since);
+  }
+}
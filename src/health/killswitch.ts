@@ -2,17 +2,27 @@ import { Logger } from 'winston';
 import { createLogger } from '../utils/logger';
 import { SpawnedAgent } from '../factory/autonome-factory';
 import { ethers } from 'ethers';
+import { StateRepository, AgentHealthRecord } from '../store/state-store';
+import { EventBus, getEventBus } from '../events/event-bus';
+import { Scheduler, getScheduler } from '../scheduler/scheduler';
+import type { SweepResult } from '../factory/agent-funding';
+import { HealthRuleEngine, RuleSetting, RuleViolation } from './rules';
+import { EquityCurve, EquitySample } from './equity-curve';
 
 export interface HealthConfig {
   maxLoss: number;          // Maximum loss percentage before termination
-  maxInactivity: number;    // Maximum hours without activity
+  maxInactivity: number;    // Maximum hours without a heartbeat from the agent runtime
   minROI: number;          // Minimum ROI percentage required
   checkInterval: number;    // Check interval in milliseconds
+  warmup?: number;          // Milliseconds after deployment before ROI rules apply
+  rules?: Record<string, RuleSetting>;  // Per-rule overrides, usually from the agent's template
 }
 
-interface HealthStatus {
+export interface HealthStatus {
   healthy: boolean;
   reason?: string;
+  action?: 'pause' | 'kill';  // Most severe action the violations call for; warnings alone take none
+  violations: RuleViolation[];
   metrics: {
     lastActivity: number;
     currentLoss: number;
@@ -20,41 +30,100 @@ interface HealthStatus {
     uptime: number;
     successfulTrades: number;
     failedTrades: number;
+    paused: boolean;
+    equity: number;           // ETH, marked to market, net of funding flows
+    peakEquity: number;
+    drawdown: number;         // Percent below the peak now
+    maxDrawdown: number;      // Largest peak-to-trough fall, percent
+    volatility: number | null;  // Annualized, of equity returns
   };
 }
 
-interface AgentMetrics {
+export interface AgentMetrics {
   trades: {
     successful: number;
     failed: number;
     totalVolume: string;
+    consecutiveFailures?: number;
+    gasSpent?: string;        // ETH paid for gas by the agent's own wallet
   };
   performance: {
     roi: number;
-    drawdown: number;
-    volatility: number;
+    drawdown: number;         // Largest peak-to-trough fall of the equity curve, percent
+    volatility: number;       // Annualized volatility of the equity curve; 0 until it has enough samples
+    currentValue?: number;    // ETH, net of funding flows
+    peakValue?: number;       // Highest value seen, for the trailing drawdown rule
   };
   lastUpdate: number;
 }
 
+// Current ETH value of everything an agent holds: its ETH plus token holdings marked to oracle prices
+export type AgentValuer = (agent: SpawnedAgent) => Promise<number>;
+
+// Stops the agent and returns its funds to the treasury, resolving once the transfers are confirmed
+export type AgentSweeper = (agent: SpawnedAgent, reason: string) => Promise<SweepResult>;
+
+// Net ETH moved into the agent's wallet: funding received less what it passed on or had swept back
+export type FundingLookup = (agent: SpawnedAgent) => number;
+
 export class HealthMonitor {
   private logger: Logger;
   private agents: Map<string, {
     agent: SpawnedAgent;
     config: HealthConfig;
-    lastActivity: number;
+    lastActivity: number;     // Last runtime heartbeat
     metrics: AgentMetrics;
+    equity: EquityCurve;
+    lastHealth?: HealthStatus;
+    terminating?: string;     // Kill reason while the sweep has not yet completed
+    paused?: string;          // Why the agent's loop is paused
+    lastPriceAt?: number;     // From the runtime's heartbeats
   }>;
   private provider: ethers.JsonRpcProvider;
-
-  constructor(rpcUrl: string) {
+  private store?: StateRepository;
+
+  constructor(
+    rpcUrl: string,
+    store?: StateRepository,
+    private events: EventBus = getEventBus(),
+    private scheduler: Scheduler = getScheduler(),
+    private valuer?: AgentValuer,
+    private sweeper?: AgentSweeper,
+    private funding?: FundingLookup,
+    private rules: HealthRuleEngine = new HealthRuleEngine()
+  ) {
     this.logger = createLogger('HealthMonitor');
     this.agents = new Map();
     this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.store = store;
+
+    // Inactivity is measured from the agent runtime's last heartbeat
+    this.events.on('AgentHeartbeat', ({ agentId, timestamp, status }) =>
+      this.recordHeartbeat(agentId, timestamp, status.lastPriceAt)
+    );
+
+    // Settled trades count towards every agent on the token
+    // Gas is only charged to the agent whose wallet signed the trade
+    this.events.on('TradeConfirmed', async ({ trade, agentIds }) => {
+      for (const agentId of agentIds) {
+        await this.recordTrade(agentId, true, trade.amount, this._signedBy(agentId, trade.wallet?.address) ? trade.gasCost : undefined);
+      }
+    });
+    this.events.on('TradeFailed', async ({ trade, agentIds }) => {
+      for (const agentId of agentIds) {
+        await this.recordTrade(agentId, false, trade.amount, this._signedBy(agentId, trade.wallet?.address) ? trade.gasCost : undefined);
+      }
+    });
   }
 
-  async monitorAgent(agent: SpawnedAgent, config: HealthConfig): Promise<void> {
-    this.logger.info('Starting health monitoring', { 
+  // Pass `restored` to resume an agent that was being monitored before a restart
+  async monitorAgent(
+    agent: SpawnedAgent,
+    config: HealthConfig,
+    restored?: AgentHealthRecord,
+    restoredEquity: EquitySample[] = []
+  ): Promise<void> {
+    this.logger.info(restored ? 'Resuming health monitoring' : 'Starting health monitoring', { 
       agentId: agent.id,
       config 
     });
@@ -62,12 +131,20 @@ export class HealthMonitor {
     this.agents.set(agent.id, {
       agent,
       config,
-      lastActivity: Date.now(),
-      metrics: {
+      lastActivity: restored?.lastActivity ?? Date.now(),
+      lastPriceAt: Date.now(),  // Price staleness counts from here until a heartbeat reports a read
+      equity: new EquityCurve(
+        Number(agent.config.config.capital),
+        restoredEquity,
+        Number(process.env.EQUITY_CURVE_SAMPLES) || 2000
+      ),
+      metrics: restored?.metrics ?? {
         trades: {
           successful: 0,
           failed: 0,
-          totalVolume: '0'
+          totalVolume: '0',
+          consecutiveFailures: 0,
+          gasSpent: '0'
         },
         performance: {
           roi: 0,
@@ -77,146 +154,169 @@ export class HealthMonitor {
         lastUpdate: Date.now()
       }
     });
+    await this._persist(agent.id);
 
     // Start monitoring loop
     this._startMonitoring(agent.id);
   }
 
-  private async _startMonitoring(agentId: string): Promise<void> {
+  private _startMonitoring(agentId: string): void {
     const agentData = this.agents.get(agentId);
     if (!agentData) return;
 
-    const interval = setInterval(async () => {
+    const jobId = `health:${agentId}`;
+    if (this.scheduler.has(jobId)) return;
+
+    this.scheduler.add(jobId, async () => {
       const currentAgentData = this.agents.get(agentId);
       if (!currentAgentData) {
-        clearInterval(interval);
+        this.scheduler.remove(jobId);
         return;
       }
 
-      try {
-        const health = await this._checkHealth(currentAgentData);
-        
-        // Log health status
-        this.logger.info('Health check completed', {
-          agentId,
-          health: health.healthy,
-          metrics: health.metrics
-        });
-
-        if (!health.healthy) {
-          await this.killAgent(agentId, health.reason || 'Health check failed');
-          clearInterval(interval);
-        }
-
-        // Update metrics
-        await this._updateMetrics(agentId);
-      } catch (error) {
-        this.logger.error('Error monitoring agent health', { error, agentId });
+      // A kill whose sweep failed is retried, with backoff, until the funds are recovered
+      if (currentAgentData.terminating) {
+        await this.killAgent(agentId, currentAgentData.terminating);
+        return;
+      }
+
+      // Rules judge fresh metrics
+      await this._updateMetrics(agentId);
+      const health = this._checkHealth(currentAgentData);
+      currentAgentData.lastHealth = health;
+
+      // Log health status
+      this.logger.info('Health check completed', {
+        agentId,
+        health: health.healthy,
+        violations: health.violations,
+        metrics: health.metrics
+      });
+      await this.events.publish('AgentHealthChecked', { agentId, health });
+
+      if (health.action === 'kill') {
+        await this.killAgent(agentId, health.reason || 'Health check failed');
+      } else if (health.action === 'pause') {
+        await this._pause(agentId, health.reason!, health.violations);
+      } else if (currentAgentData.paused) {
+        await this._resume(agentId);
       }
-    }, agentData.config.checkInterval || 60000); // Default to 1 minute if not specified
+    }, {
+      interval: agentData.config.checkInterval || 60000, // Default to 1 minute if not specified
+      group: 'health'
+    });
   }
 
-  private async _checkHealth(agentData: {
+  private _checkHealth(agentData: {
     agent: SpawnedAgent;
     config: HealthConfig;
     lastActivity: number;
     metrics: AgentMetrics;
-  }): Promise<HealthStatus> {
+    equity: EquityCurve;
+    paused?: string;
+    lastPriceAt?: number;
+  }): HealthStatus {
     const now = Date.now();
-    const inactivityHours = (now - agentData.lastActivity) / (1000 * 60 * 60);
-    
-    // Check inactivity
-    if (inactivityHours > agentData.config.maxInactivity) {
-      return {
-        healthy: false,
-        reason: `Inactive for ${inactivityHours.toFixed(2)} hours`,
-        metrics: {
-          lastActivity: agentData.lastActivity,
-          currentLoss: -agentData.metrics.performance.drawdown,
-          currentROI: agentData.metrics.performance.roi,
-          uptime: now - agentData.agent.deployedAt,
-          successfulTrades: agentData.metrics.trades.successful,
-          failedTrades: agentData.metrics.trades.failed
-        }
-      };
-    }
+    const violations = this.rules.evaluate({
+      agent: agentData.agent,
+      config: agentData.config,
+      metrics: agentData.metrics,
+      lastActivity: agentData.lastActivity,
+      lastPriceAt: agentData.lastPriceAt,
+      now
+    });
 
-    // Check ROI
-    if (agentData.metrics.performance.roi < agentData.config.minROI) {
-      return {
-        healthy: false,
-        reason: `ROI (${agentData.metrics.performance.roi}%) below minimum threshold (${agentData.config.minROI}%)`,
-        metrics: {
-          lastActivity: agentData.lastActivity,
-          currentLoss: -agentData.metrics.performance.drawdown,
-          currentROI: agentData.metrics.performance.roi,
-          uptime: now - agentData.agent.deployedAt,
-          successfulTrades: agentData.metrics.trades.successful,
-          failedTrades: agentData.metrics.trades.failed
-        }
-      };
+    for (const warning of violations.filter(violation => violation.severity === 'warn')) {
+      this.logger.warn('Health rule warning', { agentId: agentData.agent.id, rule: warning.rule, reason: warning.reason });
     }
 
-    // Check maximum loss
-    if (agentData.metrics.performance.drawdown > agentData.config.maxLoss) {
-      return {
-        healthy: false,
-        reason: `Loss (${agentData.metrics.performance.drawdown}%) exceeds maximum threshold (${agentData.config.maxLoss}%)`,
-        metrics: {
-          lastActivity: agentData.lastActivity,
-          currentLoss: -agentData.metrics.performance.drawdown,
-          currentROI: agentData.metrics.performance.roi,
-          uptime: now - agentData.agent.deployedAt,
-          successfulTrades: agentData.metrics.trades.successful,
-          failedTrades: agentData.metrics.trades.failed
-        }
-      };
-    }
+    const blocking = violations.find(violation => violation.severity === 'kill') ||
+      violations.find(violation => violation.severity === 'pause');
 
-    // All checks passed
     return {
-      healthy: true,
+      healthy: !blocking,
+      reason: blocking?.reason,
+      action: blocking?.severity === 'kill' ? 'kill' : blocking ? 'pause' : undefined,
+      violations,
       metrics: {
         lastActivity: agentData.lastActivity,
-        currentLoss: -agentData.metrics.performance.drawdown,
+        currentLoss: Math.min(0, agentData.metrics.performance.roi),
         currentROI: agentData.metrics.performance.roi,
         uptime: now - agentData.agent.deployedAt,
         successfulTrades: agentData.metrics.trades.successful,
-        failedTrades: agentData.metrics.trades.failed
+        failedTrades: agentData.metrics.trades.failed,
+        paused: !!agentData.paused,
+        equity: agentData.equity.latest(),
+        peakEquity: agentData.equity.peak(),
+        drawdown: agentData.equity.drawdown(),
+        maxDrawdown: agentData.equity.maxDrawdown(),
+        volatility: agentData.equity.volatility()
       }
     };
   }
 
+  private async _pause(agentId: string, reason: string, violations: RuleViolation[]): Promise<void> {
+    const agentData = this.agents.get(agentId);
+    if (!agentData || agentData.paused) return;
+
+    agentData.paused = reason;
+    this.logger.warn('Pausing agent', { agentId, reason });
+    await this.events.publish('AgentPaused', { agentId, reason, violations });
+  }
+
+  private async _resume(agentId: string): Promise<void> {
+    const agentData = this.agents.get(agentId);
+    if (!agentData?.paused) return;
+
+    this.logger.info('Resuming agent', { agentId, pausedFor: agentData.paused });
+    agentData.paused = undefined;
+    await this.events.publish('AgentResumed', { agentId });
+  }
+
+  private _signedBy(agentId: string, address?: string): boolean {
+    const agentData = this.agents.get(agentId);
+    return !!agentData && !!address && agentData.agent.address.toLowerCase() === address.toLowerCase();
+  }
+
+  // Samples the agent's marked-to-market value into its equity curve and derives ROI,
+  // drawdown and volatility from the curve. Transfers in and out are not performance, so the
+  // value is taken net of the agent's funding and measured against the capital it started with
   private async _updateMetrics(agentId: string): Promise<void> {
     const agentData = this.agents.get(agentId);
     if (!agentData) return;
 
     try {
-      // Get current balance
-      const balance = await this.provider.getBalance(agentData.agent.address);
-      const currentBalance = ethers.formatEther(balance);
-
-      // Calculate ROI
-      const initialBalance = ethers.formatEther(
-        ethers.parseEther(agentData.agent.config.config.capital.toString())
-      );
-      const roi = ((Number(currentBalance) - Number(initialBalance)) / Number(initialBalance)) * 100;
-
-      // Update metrics
-      agentData.metrics.performance.roi = roi;
-      agentData.metrics.lastUpdate = Date.now();
-
-      // Calculate drawdown if ROI is negative
-      if (roi < 0) {
-        agentData.metrics.performance.drawdown = Math.abs(roi);
+      // Without a valuer only the on-chain ETH balance is known, so token holdings count as nothing
+      const value = this.valuer
+        ? await this.valuer(agentData.agent)
+        : Number(ethers.formatEther(await this.provider.getBalance(agentData.agent.address)));
+
+      // Agents funded before the ledger existed have no flows to net out
+      const capital = Number(agentData.agent.config.config.capital);
+      const netFunding = this.funding?.(agentData.agent) ?? 0;
+      const equity = netFunding > 0 ? Math.max(0, value - netFunding + capital) : value;
+
+      const sample = agentData.equity.record(equity);
+      if (sample && this.store) {
+        await this.store.saveEquity({ agentId, ...sample });
       }
 
-      this.agents.set(agentId, agentData);
+      const performance = agentData.metrics.performance;
+      performance.roi = capital > 0 ? (equity - capital) / capital * 100 : 0;
+      performance.currentValue = equity;
+      performance.peakValue = agentData.equity.peak();
+      performance.drawdown = agentData.equity.maxDrawdown();
+      performance.volatility = agentData.equity.volatility() ?? 0;
+      agentData.metrics.lastUpdate = Date.now();
+
+      await this._persist(agentId);
     } catch (error) {
       this.logger.error('Error updating metrics', { error, agentId });
     }
   }
 
+  // The agent only counts as terminated once its funds are back in the treasury; if the sweep
+  // fails the error is rethrown and the health job retries the kill
   async killAgent(agentId: string, reason: string): Promise<void> {
     const agentData = this.agents.get(agentId);
     if (!agentData) return;
@@ -226,38 +326,46 @@ export class HealthMonitor {
       reason,
       metrics: agentData.metrics
     });
+    agentData.terminating = reason;
     
     try {
       // Withdraw remaining funds
-      await this._withdrawFunds(agentData.agent);
+      const recovery = await this._withdrawFunds(agentData.agent, reason);
       
-      // Log termination
-      await this._logTermination(agentData.agent, reason);
+      // Log termination; the kill is retried until the termination is on disk
+      await this._logTermination(agentData.agent, reason, recovery);
+      await this.store?.markAgentTerminated(agentId, reason, recovery);
       
       // Clean up
       this.agents.delete(agentId);
+      this.scheduler.remove(`health:${agentId}`);
+      await this.events.publish('AgentKilled', { agentId, reason, metrics: agentData.metrics, recovery });
     } catch (error) {
       this.logger.error('Error killing agent', { error, agentId });
       throw error;
     }
   }
 
-  private async _withdrawFunds(agent: SpawnedAgent): Promise<void> {
-    try {
+  private async _withdrawFunds(agent: SpawnedAgent, reason: string): Promise<SweepResult | undefined> {
+    if (!this.sweeper) {
       const balance = await this.provider.getBalance(agent.address);
-      if (balance <= BigInt(0)) return;
-
-      // Implement withdrawal logic here
-      this.logger.info('Withdrawing funds', {
+      this.logger.warn('No sweeper configured, leaving funds in agent wallet', {
         agentId: agent.id,
         balance: ethers.formatEther(balance)
       });
-    } catch (error) {
-      this.logger.error('Error withdrawing funds', { error, agentId: agent.id });
+      return undefined;
     }
+
+    const recovery = await this.sweeper(agent, reason);
+    this.logger.info('Agent funds recovered', {
+      agentId: agent.id,
+      recovered: recovery.recovered,
+      recoveredValue: recovery.recoveredValue
+    });
+    return recovery;
   }
 
-  private async _logTermination(agent: SpawnedAgent, reason: string): Promise<void> {
+  private async _logTermination(agent: SpawnedAgent, reason: string, recovery?: SweepResult): Promise<void> {
     const agentData = this.agents.get(agent.id);
     if (!agentData) return;
 
@@ -265,26 +373,61 @@ export class HealthMonitor {
       agentId: agent.id,
       reason,
       lifetime: Date.now() - agent.deployedAt,
-      metrics: agentData.metrics
+      metrics: agentData.metrics,
+      recoveredValue: recovery?.recoveredValue
     });
   }
 
+  // Latest health check, or null before the first one
+  getHealth(agentId: string): HealthStatus | null {
+    return this.agents.get(agentId)?.lastHealth ?? null;
+  }
+
+  getEquityCurve(agentId: string, since?: number): EquitySample[] {
+    return this.agents.get(agentId)?.equity.getSamples(since) ?? [];
+  }
+
+  recordHeartbeat(agentId: string, timestamp: number, lastPriceAt?: number): void {
+    const agentData = this.agents.get(agentId);
+    if (!agentData) return;
+    agentData.lastActivity = Math.max(agentData.lastActivity, timestamp);
+    if (lastPriceAt) {
+      agentData.lastPriceAt = Math.max(agentData.lastPriceAt ?? 0, lastPriceAt);
+    }
+  }
+
   // Method to update trade metrics
-  async recordTrade(agentId: string, successful: boolean, volume: string): Promise<void> {
+  async recordTrade(agentId: string, successful: boolean, volume: string, gasCost?: string): Promise<void> {
     const agentData = this.agents.get(agentId);
     if (!agentData) return;
 
     if (successful) {
       agentData.metrics.trades.successful++;
+      agentData.metrics.trades.consecutiveFailures = 0;
     } else {
       agentData.metrics.trades.failed++;
+      agentData.metrics.trades.consecutiveFailures = (agentData.metrics.trades.consecutiveFailures || 0) + 1;
+    }
+    if (gasCost) {
+      agentData.metrics.trades.gasSpent = (Number(agentData.metrics.trades.gasSpent || 0) + Number(gasCost)).toString();
     }
 
     agentData.metrics.trades.totalVolume = (
       Number(agentData.metrics.trades.totalVolume) + Number(volume)
     ).toString();
 
-    agentData.lastActivity = Date.now();
     this.agents.set(agentId, agentData);
+    await this._persist(agentId);
+  }
+
+  private async _persist(agentId: string): Promise<void> {
+    const agentData = this.agents.get(agentId);
+    if (!agentData || !this.store) return;
+
+    await this.store.saveAgentHealth({
+      agentId,
+      lastActivity: agentData.lastActivity,
+      metrics: agentData.metrics
+    });
   }
 } 
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { HealthRuleEngine, HealthContext, HealthRule } from './rules';
+import type { SpawnedAgent } from '../factory/autonome-factory';
+import type { AgentMetrics, HealthConfig } from './killswitch';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 0, 15, 12);
+
+const agent = { id: 'agent-1', address: '0x', derivationIndex: 1, config: { config: { capital: '1' } }, deployedAt: NOW - HOUR } as unknown as SpawnedAgent;
+
+const config: HealthConfig = { maxLoss: 20, maxInactivity: 1, minROI: -5, checkInterval: 60000, warmup: 2 * HOUR };
+
+function context(overrides: Partial<AgentMetrics['performance']> = {}, health: Partial<HealthConfig> = {}): HealthContext {
+  const metrics: AgentMetrics = {
+    trades: { successful: 0, failed: 0, totalVolume: '0' },
+    performance: { roi: 0, drawdown: 0, volatility: 0, ...overrides },
+    lastUpdate: NOW
+  };
+  return { agent, config: { ...config, ...health }, metrics, lastActivity: NOW, lastPriceAt: NOW, now: NOW };
+}
+
+const rules = (violations: { rule: string }[]) => violations.map(violation => violation.rule);
+
+describe('HealthRuleEngine', () => {
+  const engine = new HealthRuleEngine();
+
+  it('passes a healthy agent', () => {
+    expect(engine.evaluate(context())).toEqual([]);
+  });
+
+  it('holds back warm-up rules until the warm-up period has passed', () => {
+    expect(rules(engine.evaluate(context({ roi: -10 })))).toEqual([]);
+    expect(rules(engine.evaluate(context({ roi: -10 }, { warmup: HOUR / 2 })))).toEqual(['min-roi']);
+  });
+
+  it('applies loss limits during warm-up', () => {
+    const violations = engine.evaluate(context({ roi: -25, peakValue: 1, currentValue: 0.75 }));
+    expect(rules(violations)).toEqual(['max-loss']);
+    expect(violations[0].severity).toBe('kill');
+  });
+
+  it('applies per-template thresholds, severities and switches', () => {
+    const drop = { peakValue: 1, currentValue: 0.8 };
+    expect(rules(engine.evaluate(context(drop)))).toEqual([]);
+
+    const tightened = engine.evaluate(context(drop, { rules: { 'trailing-drawdown': { threshold: 15, severity: 'pause' } } }));
+    expect(tightened).toMatchObject([{ rule: 'trailing-drawdown', severity: 'pause' }]);
+
+    const disabled = engine.evaluate(context({ roi: -25 }, { rules: { 'max-loss': { enabled: false } } }));
+    expect(disabled).toEqual([]);
+  });
+
+  it('runs registered rules and replaces rules by name', () => {
+    const custom = new HealthRuleEngine([]);
+    const rule: HealthRule = {
+      name: 'always',
+      severity: 'warn',
+      warmup: false,
+      threshold: () => 0,
+      evaluate: () => 'always fails'
+    };
+    custom.register(rule);
+    custom.register({ ...rule, severity: 'pause' });
+
+    expect(custom.list()).toHaveLength(1);
+    expect(custom.evaluate(context())).toEqual([{ rule: 'always', severity: 'pause', reason: 'always fails' }]);
+  });
+});
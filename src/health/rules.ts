@@ -0,0 +1,170 @@
+import type { SpawnedAgent } from '../factory/autonome-factory';
+import type { AgentMetrics, HealthConfig } from './killswitch';
+
+// warn only reports, pause stops the agent's loop until the rule clears, kill terminates it
+export type RuleSeverity = 'warn' | 'pause' | 'kill';
+
+// Per-template override of one rule
+export interface RuleSetting {
+  enabled?: boolean;
+  severity?: RuleSeverity;
+  threshold?: number;
+}
+
+export interface HealthContext {
+  agent: SpawnedAgent;
+  config: HealthConfig;
+  metrics: AgentMetrics;
+  lastActivity: number;         // Last runtime heartbeat
+  lastPriceAt?: number;         // Last time the agent's loop read a price
+  now: number;
+}
+
+export interface HealthRule {
+  name: string;
+  severity: RuleSeverity;
+  warmup: boolean;              // Held back until the agent's warm-up period has passed
+  threshold(config: HealthConfig): number;
+  // Returns why the agent breaks the rule, or null if it passes
+  evaluate(context: HealthContext, threshold: number): string | null;
+}
+
+export interface RuleViolation {
+  rule: string;
+  severity: RuleSeverity;
+  reason: string;
+}
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+const inactivity: HealthRule = {
+  name: 'inactivity',
+  severity: 'kill',
+  warmup: false,
+  threshold: config => config.maxInactivity,
+  evaluate({ lastActivity, now }, hours) {
+    const inactive = (now - lastActivity) / HOUR;
+    return inactive > hours ? `Inactive for ${inactive.toFixed(2)} hours` : null;
+  }
+};
+
+// Loss limits protect capital from the first tick, so they are not subject to warm-up
+const maxLoss: HealthRule = {
+  name: 'max-loss',
+  severity: 'kill',
+  warmup: false,
+  threshold: config => config.maxLoss,
+  evaluate({ metrics }, percent) {
+    const loss = -metrics.performance.roi;
+    return loss > percent ? `Loss (${loss.toFixed(2)}%) exceeds maximum threshold (${percent}%)` : null;
+  }
+};
+
+// ROI starts at 0, so this only applies once the agent has had time to trade
+const minRoi: HealthRule = {
+  name: 'min-roi',
+  severity: 'kill',
+  warmup: true,
+  threshold: config => config.minROI,
+  evaluate({ metrics }, percent) {
+    const roi = metrics.performance.roi;
+    return roi < percent ? `ROI (${roi.toFixed(2)}%) below minimum threshold (${percent}%)` : null;
+  }
+};
+
+const trailingDrawdown: HealthRule = {
+  name: 'trailing-drawdown',
+  severity: 'kill',
+  warmup: false,
+  threshold: () => 30,
+  evaluate({ metrics }, percent) {
+    const { peakValue, currentValue } = metrics.performance;
+    if (!peakValue || currentValue === undefined) return null;
+    const drop = (peakValue - currentValue) / peakValue * 100;
+    return drop > percent ? `Value ${drop.toFixed(2)}% below its peak of ${peakValue.toFixed(6)} ETH (limit ${percent}%)` : null;
+  }
+};
+
+const consecutiveFailures: HealthRule = {
+  name: 'consecutive-failures',
+  severity: 'pause',
+  warmup: false,
+  threshold: () => 3,
+  evaluate({ metrics }, count) {
+    const failures = metrics.trades.consecutiveFailures || 0;
+    return failures >= count ? `${failures} consecutive failed trades` : null;
+  }
+};
+
+// Gas spent by the agent's own wallet as a share of its capital
+const gasBurn: HealthRule = {
+  name: 'gas-burn',
+  severity: 'warn',
+  warmup: false,
+  threshold: () => 10,
+  evaluate({ agent, metrics }, percent) {
+    const capital = Number(agent.config.config.capital);
+    if (!(capital > 0)) return null;
+    const burn = Number(metrics.trades.gasSpent || 0) / capital * 100;
+    return burn > percent ? `Gas spent is ${burn.toFixed(2)}% of capital (limit ${percent}%)` : null;
+  }
+};
+
+// The agent's loop trades on prices it reads itself; stale prices mean it is trading blind
+const stalePrice: HealthRule = {
+  name: 'stale-price',
+  severity: 'pause',
+  warmup: false,
+  threshold: () => 15,
+  evaluate({ agent, lastPriceAt, now }, minutes) {
+    const age = (now - (lastPriceAt ?? agent.deployedAt)) / MINUTE;
+    return age > minutes ? `No fresh price for ${age.toFixed(1)} minutes` : null;
+  }
+};
+
+export const HEALTH_RULES: HealthRule[] = [
+  inactivity,
+  maxLoss,
+  minRoi,
+  trailingDrawdown,
+  consecutiveFailures,
+  gasBurn,
+  stalePrice
+];
+
+// Runs every registered rule against an agent, applying the agent's per-rule settings
+// (from its template) and its warm-up period
+export class HealthRuleEngine {
+  private rules: Map<string, HealthRule>;
+
+  constructor(rules: HealthRule[] = HEALTH_RULES) {
+    this.rules = new Map(rules.map(rule => [rule.name, rule]));
+  }
+
+  // Adds a rule, or replaces the one with the same name
+  register(rule: HealthRule): void {
+    this.rules.set(rule.name, rule);
+  }
+
+  list(): HealthRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  evaluate(context: HealthContext): RuleViolation[] {
+    const warmingUp = context.now - context.agent.deployedAt < (context.config.warmup ?? 0);
+    const violations: RuleViolation[] = [];
+
+    for (const rule of Array.from(this.rules.values())) {
+      const setting = context.config.rules?.[rule.name] || {};
+      if (setting.enabled === false || (rule.warmup && warmingUp)) continue;
+
+      const reason = rule.evaluate(context, setting.threshold ?? rule.threshold(context.config));
+      if (reason) {
+        violations.push({ rule: rule.name, severity: setting.severity || rule.severity, reason });
+      }
+    }
+
+    return violations;
+  }
+}
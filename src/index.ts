@@ -4,7 +4,8 @@ import cors from 'cors';
 import * as dotenv from 'dotenv';
 import { createLogger } from './utils/logger';
 import { AgentSpawner } from './services/agent-spawner';
-import chatRouter from './api/chat';
+import { SizingStrategy } from './risk/position-sizing';
+import { createChatRouter } from './api/chat';
 
 dotenv.config();
 
@@ -18,9 +19,6 @@ const port = process.env.PORT || 3000;
 app.use(cors());
 app.use(express.json());
 
-// Routes
-app.use('/api/chat', chatRouter);
-
 // Initialize services
 const rpcUrl = process.env.BASE_RPC_URL || 'https://rpc.buildbear.io/vijay2ankith';
 const agentSpawner = new AgentSpawner(rpcUrl, {
@@ -28,9 +26,22 @@ const agentSpawner = new AgentSpawner(rpcUrl, {
   minEngagement: Number(process.env.MIN_ENGAGEMENT) || 1000,
   maxAgentsPerToken: Number(process.env.MAX_AGENTS_PER_TOKEN) || 3,
   minCapital: Number(process.env.MIN_CAPITAL) || 0.1,
-  maxCapital: Number(process.env.MAX_CAPITAL) || 1.0
+  maxCapital: Number(process.env.MAX_CAPITAL) || 1.0,
+  minConfidence: Number(process.env.MIN_CONFIDENCE) || 0.7,
+  executionMode: process.env.EXECUTION_MODE === 'paper' ? 'paper' : 'live',
+  monitoringInterval: Number(process.env.MONITORING_INTERVAL) || 5 * 60 * 1000,
+  sizing: {
+    strategy: (process.env.POSITION_SIZING as SizingStrategy) || 'fixed-fraction',
+    fraction: Number(process.env.SIZING_FRACTION) || 0.1,
+    kellyMultiplier: Number(process.env.KELLY_MULTIPLIER) || 0.5,
+    targetVolatility: Number(process.env.TARGET_VOLATILITY) || 0.5,
+    payoffRatio: Number(process.env.DEFAULT_PAYOFF_RATIO) || 2
+  }
 });
 
+// Routes
+app.use('/api/chat', createChatRouter(rpcUrl, agentSpawner));
+
 // Start monitoring
 async function main() {
   try {
@@ -54,20 +65,9 @@ async function main() {
       logger.info(`Server is running on port ${port}`);
     });
 
-    // Initial check
-    await agentSpawner.checkAndSpawnAgents();
-    logger.info('Initial monitoring check completed');
-
-    // Start periodic monitoring
-    const MONITORING_INTERVAL = Number(process.env.MONITORING_INTERVAL) || 5 * 60 * 1000; // Default 5 minutes
-    setInterval(async () => {
-      try {
-        await agentSpawner.checkAndSpawnAgents();
-        logger.info('Periodic monitoring check completed');
-      } catch (error) {
-        logger.error('Error in monitoring interval', { error });
-      }
-    }, MONITORING_INTERVAL);
+    // Exit checks and per-token decision cycles run on the shared scheduler
+    await agentSpawner.startMonitoring();
+    logger.info('Monitoring jobs scheduled', { jobs: agentSpawner.getScheduler().list().map(job => job.id) });
 
   } catch (error) {
     logger.error('Error starting system', { error });
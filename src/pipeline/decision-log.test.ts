@@ -0,0 +1,91 @@
+import { DecisionBuilder, DecisionLog, DecisionRecord } from './decision-log';
+import type { StateRepository } from '../store/state-store';
+
+function memoryStore(): StateRepository & { decisions: DecisionRecord[] } {
+  const decisions: DecisionRecord[] = [];
+  const noop = async () => undefined;
+  return {
+    decisions,
+    init: async () => ({ agents: [], health: [], positions: [], trades: [], decisions: [], funding: [], equity: [] }),
+    saveAgent: noop,
+    markAgentTerminated: noop,
+    saveAgentHealth: noop,
+    savePosition: noop,
+    saveTrade: noop,
+    saveDecision: async record => { decisions.push(record); },
+    saveFunding: noop,
+    saveEquity: noop
+  };
+}
+
+describe('DecisionBuilder', () => {
+  it('records each stage in order and the last stage that ran', () => {
+    const decision = new DecisionBuilder('cycle-1', 'DEGEN');
+    decision.pass('analysis', { sentiment: 0.8 });
+    decision.pass('judge');
+
+    expect(decision.record.stages.map(stage => [stage.stage, stage.outcome])).toEqual([
+      ['analysis', 'passed'],
+      ['judge', 'passed']
+    ]);
+    expect(decision.record.stages[0].data).toEqual({ sentiment: 0.8 });
+    expect(decision.record.decidedAt).toBe('judge');
+    expect(decision.record.outcome).toBe('pending');
+    expect(decision.isRejected()).toBe(false);
+  });
+
+  it('marks the decision rejected with the reason', () => {
+    const decision = new DecisionBuilder('cycle-1', 'DEGEN');
+    decision.reject('risk', 'Exposure cap');
+
+    expect(decision.record.outcome).toBe('rejected');
+    expect(decision.record.stages[0].reason).toBe('Exposure cap');
+    expect(decision.isRejected()).toBe(true);
+  });
+
+  it('keeps the error message of a failed stage', () => {
+    const decision = new DecisionBuilder('cycle-1', 'DEGEN');
+    decision.fail('execution', new Error('nonce too low'));
+    decision.fail('agent', 'spawn failed');
+
+    expect(decision.record.outcome).toBe('error');
+    expect(decision.record.stages.map(stage => stage.reason)).toEqual(['nonce too low', 'spawn failed']);
+  });
+});
+
+describe('DecisionLog', () => {
+  it('completes pending decisions with the given outcome and persists them', async () => {
+    const store = memoryStore();
+    const log = new DecisionLog(store);
+    const decision = new DecisionBuilder('cycle-1', 'DEGEN');
+    decision.pass('execution');
+
+    const record = await log.complete(decision, 'traded');
+    expect(record.outcome).toBe('traded');
+    expect(record.completedAt).toBeDefined();
+    expect(store.decisions).toEqual([record]);
+  });
+
+  it('does not overwrite a rejection', async () => {
+    const log = new DecisionLog(memoryStore());
+    const decision = new DecisionBuilder('cycle-1', 'DEGEN');
+    decision.reject('risk', 'Exposure cap');
+    expect((await log.complete(decision, 'traded')).outcome).toBe('rejected');
+  });
+
+  it('queries newest first by token and outcome, and explains trades', async () => {
+    const log = new DecisionLog(memoryStore());
+    const at = Date.now();
+    log.restore([
+      { id: 'a', cycleId: 'c', token: 'DEGEN', startedAt: at - 3000, outcome: 'rejected', stages: [] },
+      { id: 'b', cycleId: 'c', token: 'DEGEN', startedAt: at - 2000, outcome: 'traded', stages: [], tradeId: 't1' },
+      { id: 'c', cycleId: 'c', token: 'BRETT', startedAt: at - 1000, outcome: 'traded', stages: [], tradeId: 't2' }
+    ]);
+
+    expect(log.query().map(record => record.id)).toEqual(['c', 'b', 'a']);
+    expect(log.query({ token: 'degen' }).map(record => record.id)).toEqual(['b', 'a']);
+    expect(log.query({ outcome: 'traded', limit: 1 }).map(record => record.id)).toEqual(['c']);
+    expect(log.explain('DEGEN', at)?.id).toBe('b');
+    expect(log.explain('DEGEN', at + 60 * 60 * 1000)).toBeNull();
+  });
+});
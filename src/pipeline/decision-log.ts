@@ -0,0 +1,148 @@
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import type { StateRepository } from '../store/state-store';
+
+export type DecisionStage =
+  | 'analysis'
+  | 'opportunity'
+  | 'judge'
+  | 'strategy'
+  | 'risk'
+  | 'funding'
+  | 'execution'
+  | 'agent'
+  | 'exit';
+
+export type StageOutcome = 'passed' | 'rejected' | 'error';
+
+export interface StageRecord {
+  stage: DecisionStage;
+  outcome: StageOutcome;
+  at: number;
+  reason?: string;
+  data?: Record<string, any>;   // What the stage saw and produced
+}
+
+export type DecisionOutcome = 'pending' | 'rejected' | 'traded' | 'spawned' | 'error';
+
+export interface DecisionRecord {
+  id: string;
+  cycleId: string;
+  token: string;
+  startedAt: number;
+  completedAt?: number;
+  outcome: DecisionOutcome;
+  decidedAt?: DecisionStage;    // Last stage that ran
+  stages: StageRecord[];
+  tradeId?: string;
+  agentId?: string;
+}
+
+export interface DecisionQuery {
+  token?: string;
+  outcome?: DecisionOutcome;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+// Collects the stages of one token's pass through the pipeline
+export class DecisionBuilder {
+  readonly record: DecisionRecord;
+
+  constructor(cycleId: string, token: string) {
+    this.record = {
+      id: `${token}-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+      cycleId,
+      token,
+      startedAt: Date.now(),
+      outcome: 'pending',
+      stages: []
+    };
+  }
+
+  private add(stage: DecisionStage, outcome: StageOutcome, reason?: string, data?: Record<string, any>) {
+    this.record.stages.push({ stage, outcome, at: Date.now(), reason, data });
+    this.record.decidedAt = stage;
+  }
+
+  pass(stage: DecisionStage, data?: Record<string, any>) {
+    this.add(stage, 'passed', undefined, data);
+  }
+
+  reject(stage: DecisionStage, reason: string, data?: Record<string, any>) {
+    this.add(stage, 'rejected', reason, data);
+    this.record.outcome = 'rejected';
+  }
+
+  fail(stage: DecisionStage, error: unknown) {
+    this.add(stage, 'error', error instanceof Error ? error.message : String(error));
+    this.record.outcome = 'error';
+  }
+
+  isRejected(): boolean {
+    return this.record.outcome === 'rejected' || this.record.outcome === 'error';
+  }
+}
+
+export class DecisionLog {
+  private logger: Logger;
+  private records: DecisionRecord[];
+
+  constructor(private store: StateRepository, private maxInMemory: number = 5000) {
+    this.logger = createLogger('DecisionLog');
+    this.records = [];
+  }
+
+  restore(records: DecisionRecord[]) {
+    this.records = records.slice(-this.maxInMemory);
+  }
+
+  async complete(builder: DecisionBuilder, outcome?: DecisionOutcome): Promise<DecisionRecord> {
+    const record = builder.record;
+    if (outcome && record.outcome === 'pending') {
+      record.outcome = outcome;
+    }
+    record.completedAt = Date.now();
+
+    this.records.push(record);
+    if (this.records.length > this.maxInMemory) {
+      this.records = this.records.slice(-this.maxInMemory);
+    }
+    await this.store.saveDecision(record);
+
+    this.logger.info('Decision recorded', {
+      id: record.id,
+      cycleId: record.cycleId,
+      token: record.token,
+      outcome: record.outcome,
+      decidedAt: record.decidedAt,
+      reason: record.stages[record.stages.length - 1]?.reason
+    });
+    return record;
+  }
+
+  // Newest first
+  query(query: DecisionQuery = {}): DecisionRecord[] {
+    const token = query.token?.toUpperCase();
+    const matches = this.records.filter(record =>
+      (!token || record.token === token) &&
+      (!query.outcome || record.outcome === query.outcome) &&
+      (query.since === undefined || record.startedAt >= query.since) &&
+      (query.until === undefined || record.startedAt <= query.until)
+    );
+    return matches.reverse().slice(0, query.limit ?? 20);
+  }
+
+  // Finds the decision behind a trade closest to the given time
+  explain(token: string, at: number, toleranceMs: number = 30 * 60 * 1000): DecisionRecord | null {
+    let best: DecisionRecord | null = null;
+    for (const record of this.query({ token, since: at - toleranceMs, until: at + toleranceMs, limit: Infinity })) {
+      if (!record.tradeId) continue;
+      if (!best || Math.abs(record.startedAt - at) < Math.abs(best.startedAt - at)) {
+        best = record;
+      }
+    }
+    return best;
+  }
+}
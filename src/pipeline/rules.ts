@@ -0,0 +1,44 @@
+import { Opportunity } from '../scout';
+import { MarketAnalysis } from '../services/twitter-sentiment';
+
+// Decision rules shared by the live pipeline and the backtester so both trade the same way
+
+export interface AnalysisThresholds {
+  minSentiment: number;
+  minConfidence: number;
+}
+
+// Returns why the analysis is too weak to act on, or null if it passes
+export function checkAnalysis(analysis: MarketAnalysis, thresholds: AnalysisThresholds): string | null {
+  if (Math.abs(analysis.sentiment) < thresholds.minSentiment) {
+    return `Sentiment ${analysis.sentiment} below threshold ${thresholds.minSentiment}`;
+  }
+  if (analysis.confidence < thresholds.minConfidence) {
+    return `Confidence ${analysis.confidence} below threshold ${thresholds.minConfidence}`;
+  }
+  return null;
+}
+
+export function buildSentimentOpportunity(token: string, analysis: MarketAnalysis, timestamp: number): Opportunity {
+  return {
+    type: 'sentiment',
+    token,
+    risk: Math.max(1, 5 - analysis.sentiment * 5), // Higher sentiment = lower risk
+    confidence: analysis.confidence,
+    source: 'venice-ai',
+    timestamp,
+    metadata: {
+      sentiment: analysis.sentiment,
+      marketCondition: analysis.marketCondition,
+      reasoning: analysis.reasoning,
+      suggestedActions: analysis.suggestedActions
+    }
+  };
+}
+
+export function selectTemplate(sentiment: number): string {
+  return sentiment > 0.7 ? 'aggressive-long' :
+         sentiment > 0.3 ? 'conservative-long' :
+         sentiment < -0.7 ? 'aggressive-short' :
+         sentiment < -0.3 ? 'conservative-short' : 'neutral';
+}
@@ -0,0 +1,66 @@
+import { ExitManager } from './exit-manager';
+import type { Position } from '../services/agent-spawner';
+
+const HOUR = 60 * 60 * 1000;
+const OPENED = Date.UTC(2024, 0, 15, 12);
+
+const position = (overrides: Partial<Position> = {}): Position => ({
+  token: 'DEGEN',
+  amount: '1000',
+  entryPrice: '1',
+  currentPrice: '1',
+  twapPrice: '1',
+  pnl: '0',
+  strategy: 'neutral',
+  lastUpdate: OPENED,
+  tokenAddress: '0x1111111111111111111111111111111111111111',
+  openedAt: OPENED,
+  ...overrides
+});
+
+describe('ExitManager.evaluate', () => {
+  const manager = new ExitManager({ stopLoss: 10, trailingStop: 15, takeProfit: 50, maxHoldingTime: 24 * HOUR });
+
+  it('holds inside every limit', () => {
+    expect(manager.evaluate(position(), 1.05, OPENED + HOUR)).toBeNull();
+  });
+
+  it('stops out at the loss limit from entry', () => {
+    expect(manager.evaluate(position(), 0.89, OPENED + HOUR)?.reason).toBe('stop_loss');
+  });
+
+  it('follows the peak with the trailing stop', () => {
+    const open = position();
+    expect(manager.evaluate(open, 1.4, OPENED + HOUR)).toBeNull();
+    expect(open.peakPrice).toBe('1.4');
+
+    // 1.4 -> 1.19 is 15% off the peak while still up from entry
+    const signal = manager.evaluate(open, 1.19, OPENED + 2 * HOUR);
+    expect(signal?.reason).toBe('trailing_stop');
+    expect(open.peakPrice).toBe('1.4');
+  });
+
+  it('takes profit at the target', () => {
+    expect(manager.evaluate(position({ peakPrice: '1.5' }), 1.5, OPENED + HOUR)?.reason).toBe('take_profit');
+  });
+
+  it('closes positions held past the time limit', () => {
+    expect(manager.evaluate(position(), 1, OPENED + 24 * HOUR)?.reason).toBe('time_exit');
+  });
+
+  it('lets a position override the defaults', () => {
+    const tight = position({ exit: { stopLoss: 2 } });
+    expect(manager.getRules(tight).stopLoss).toBe(2);
+    expect(manager.evaluate(tight, 0.97, OPENED + HOUR)?.reason).toBe('stop_loss');
+  });
+
+  it('ignores empty positions and missing prices', () => {
+    expect(manager.evaluate(position({ amount: '0' }), 0.5, OPENED + HOUR)).toBeNull();
+    expect(manager.evaluate(position({ entryPrice: '0' }), 0.5, OPENED + HOUR)).toBeNull();
+    expect(manager.evaluate(position(), 0, OPENED + HOUR)).toBeNull();
+  });
+
+  it('disables exits that are not configured', () => {
+    expect(new ExitManager().evaluate(position(), 0.1, OPENED + 1000 * HOUR)).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import type { Position } from '../services/agent-spawner';
+
+export type ExitReason = 'stop_loss' | 'trailing_stop' | 'take_profit' | 'time_exit';
+
+// Percentages are relative to the entry (or peak) price; omit a field to disable that exit
+export interface ExitConfig {
+  stopLoss?: number;
+  trailingStop?: number;
+  takeProfit?: number;
+  maxHoldingTime?: number;  // Milliseconds
+}
+
+export interface ExitSignal {
+  reason: ExitReason;
+  price: number;
+  detail: string;
+}
+
+export class ExitManager {
+  private logger: Logger;
+
+  constructor(private defaults: ExitConfig = {}) {
+    this.logger = createLogger('ExitManager');
+  }
+
+  getRules(position: Position): ExitConfig {
+    return { ...this.defaults, ...position.exit };
+  }
+
+  // Checks one position against the current oracle price.
+  // Also raises the position's peak price, which the trailing stop follows.
+  evaluate(position: Position, price: number, now: number = Date.now()): ExitSignal | null {
+    const entry = Number(position.entryPrice);
+    if (!(Number(position.amount) > 0) || !(entry > 0) || !(price > 0)) {
+      return null;
+    }
+
+    const peak = Math.max(Number(position.peakPrice || entry), price);
+    position.peakPrice = peak.toString();
+
+    const rules = this.getRules(position);
+    const change = (price - entry) / entry * 100;
+    const fromPeak = (peak - price) / peak * 100;
+    const heldFor = now - (position.openedAt ?? position.lastUpdate);
+
+    let signal: ExitSignal | null = null;
+    if (rules.stopLoss !== undefined && change <= -rules.stopLoss) {
+      signal = { reason: 'stop_loss', price, detail: `Price ${change.toFixed(2)}% from entry, stop at -${rules.stopLoss}%` };
+    } else if (rules.trailingStop !== undefined && fromPeak >= rules.trailingStop) {
+      signal = { reason: 'trailing_stop', price, detail: `Price ${fromPeak.toFixed(2)}% below peak ${peak}, trail ${rules.trailingStop}%` };
+    } else if (rules.takeProfit !== undefined && change >= rules.takeProfit) {
+      signal = { reason: 'take_profit', price, detail: `Price +${change.toFixed(2)}% from entry, target +${rules.takeProfit}%` };
+    } else if (rules.maxHoldingTime !== undefined && heldFor >= rules.maxHoldingTime) {
+      signal = { reason: 'time_exit', price, detail: `Held for ${Math.round(heldFor / 60000)} minutes, limit ${Math.round(rules.maxHoldingTime / 60000)}` };
+    }
+
+    if (signal) {
+      this.logger.info('Exit triggered', { token: position.token, entry, peak, ...signal });
+    }
+    return signal;
+  }
+}
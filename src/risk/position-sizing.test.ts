@@ -0,0 +1,79 @@
+import {
+  FixedFractionSizer,
+  KellyFractionSizer,
+  VolatilityTargetSizer,
+  SizingContext,
+  boundPositionSize,
+  createPositionSizer
+} from './position-sizing';
+
+const context = (overrides: Partial<SizingContext> = {}): SizingContext =>
+  ({ token: 'DEGEN', confidence: 0.6, walletBalance: 10, volatility: null, ...overrides });
+
+describe('FixedFractionSizer', () => {
+  it('sizes a fixed share of the wallet', () => {
+    expect(new FixedFractionSizer(0.1).size(context())).toBeCloseTo(1);
+  });
+});
+
+describe('KellyFractionSizer', () => {
+  it('takes the configured portion of the Kelly bet', () => {
+    // f* = 0.6 - 0.4 / 2 = 0.4, half Kelly = 0.2 of the wallet
+    expect(new KellyFractionSizer(0.5, 2).size(context())).toBeCloseTo(2);
+  });
+
+  it('prefers the payoff ratio from the Judge', () => {
+    // f* = 0.6 - 0.4 / 4 = 0.5
+    expect(new KellyFractionSizer(1, 2).size(context({ payoffRatio: 4 }))).toBeCloseTo(5);
+  });
+
+  it('does not bet without an edge', () => {
+    expect(new KellyFractionSizer(1, 1).size(context({ confidence: 0.4 }))).toBe(0);
+    expect(new KellyFractionSizer(1, 2).size(context({ payoffRatio: 0 }))).toBe(0);
+  });
+});
+
+describe('VolatilityTargetSizer', () => {
+  const sizer = new VolatilityTargetSizer(0.1, 0.5);
+
+  it('uses the base fraction without price history', () => {
+    expect(sizer.size(context())).toBeCloseTo(1);
+  });
+
+  it('scales the base fraction down for tokens above the target volatility', () => {
+    expect(sizer.size(context({ volatility: 1 }))).toBeCloseTo(0.5);
+    expect(sizer.size(context({ volatility: 2 }))).toBeCloseTo(0.25);
+  });
+
+  it('never sizes above the base fraction for calm tokens', () => {
+    expect(sizer.size(context({ volatility: 0.1 }))).toBeCloseTo(1);
+  });
+});
+
+describe('boundPositionSize', () => {
+  const bounds = { walletBalance: 2, minCapital: 0.1, maxCapital: 1 };
+
+  it('clamps to the wallet, maxCapital and the Judge capital', () => {
+    expect(boundPositionSize(5, bounds)).toBe(1);
+    expect(boundPositionSize(5, { ...bounds, walletBalance: 0.5 })).toBe(0.5);
+    expect(boundPositionSize(5, { ...bounds, recommendedCapital: 0.3 })).toBe(0.3);
+  });
+
+  it('returns 0 below minCapital', () => {
+    expect(boundPositionSize(0.05, bounds)).toBe(0);
+    expect(boundPositionSize(-1, bounds)).toBe(0);
+  });
+
+  it('rounds to six decimals', () => {
+    expect(boundPositionSize(0.123456789, bounds)).toBe(0.123457);
+  });
+});
+
+describe('createPositionSizer', () => {
+  it('builds the configured strategy', () => {
+    const config = { fraction: 0.1, kellyMultiplier: 0.5, targetVolatility: 0.5, payoffRatio: 2 };
+    expect(createPositionSizer({ ...config, strategy: 'kelly' }).strategy).toBe('kelly');
+    expect(createPositionSizer({ ...config, strategy: 'volatility-target' }).strategy).toBe('volatility-target');
+    expect(createPositionSizer({ ...config, strategy: 'fixed-fraction' }).strategy).toBe('fixed-fraction');
+  });
+});
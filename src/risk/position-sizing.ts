@@ -0,0 +1,96 @@
+export type SizingStrategy = 'fixed-fraction' | 'kelly' | 'volatility-target';
+
+export interface SizingConfig {
+  strategy: SizingStrategy;
+  fraction: number;           // Share of the wallet per trade (fixed-fraction) or base share (volatility-target)
+  kellyMultiplier: number;    // Portion of the full Kelly bet actually taken, e.g. 0.5 = half Kelly
+  targetVolatility: number;   // Annualized volatility the position should carry
+  payoffRatio: number;        // Win/loss ratio assumed when the Judge gives no targets
+}
+
+export interface SizingContext {
+  token: string;
+  confidence: number;         // Treated as the win probability
+  walletBalance: number;      // ETH available
+  volatility: number | null;  // Annualized realized volatility, null when unknown
+  payoffRatio?: number;
+}
+
+// Returns an unbounded size in ETH; the caller applies wallet and capital limits
+export interface PositionSizer {
+  readonly strategy: SizingStrategy;
+  size(context: SizingContext): number;
+}
+
+export class FixedFractionSizer implements PositionSizer {
+  readonly strategy = 'fixed-fraction' as const;
+
+  constructor(private fraction: number) {}
+
+  size(context: SizingContext): number {
+    return context.walletBalance * this.fraction;
+  }
+}
+
+export class KellyFractionSizer implements PositionSizer {
+  readonly strategy = 'kelly' as const;
+
+  constructor(private multiplier: number, private defaultPayoffRatio: number) {}
+
+  size(context: SizingContext): number {
+    const p = context.confidence;
+    const b = context.payoffRatio ?? this.defaultPayoffRatio;
+    if (b <= 0) return 0;
+
+    // f* = p - (1 - p) / b; no edge means no bet
+    const kelly = p - (1 - p) / b;
+    return Math.max(0, kelly) * this.multiplier * context.walletBalance;
+  }
+}
+
+export class VolatilityTargetSizer implements PositionSizer {
+  readonly strategy = 'volatility-target' as const;
+
+  constructor(private fraction: number, private targetVolatility: number) {}
+
+  // The base fraction is the most a position gets; tokens more volatile than the target get
+  // proportionally less. Without enough price history the base fraction is used as-is.
+  size(context: SizingContext): number {
+    const base = context.walletBalance * this.fraction;
+    if (!context.volatility) {
+      return base;
+    }
+    return base * Math.min(1, this.targetVolatility / context.volatility);
+  }
+}
+
+export interface SizingBounds {
+  walletBalance: number;
+  minCapital: number;
+  maxCapital: number;
+  recommendedCapital?: number;  // The Judge's recommendedConfig.capital
+}
+
+// Clamps a raw size to the wallet, maxCapital and the Judge's capital; 0 means too small to trade
+export function boundPositionSize(raw: number, bounds: SizingBounds): number {
+  const limit = Math.min(
+    bounds.walletBalance,
+    bounds.maxCapital,
+    bounds.recommendedCapital ?? bounds.maxCapital
+  );
+  const size = Math.min(Math.max(raw, 0), limit);
+  return size < bounds.minCapital ? 0 : Number(size.toFixed(6));
+}
+
+export function createPositionSizer(config: SizingConfig): PositionSizer {
+  switch (config.strategy) {
+    case 'kelly':
+      return new KellyFractionSizer(config.kellyMultiplier, config.payoffRatio);
+    case 'volatility-target':
+      return new VolatilityTargetSizer(config.fraction, config.targetVolatility);
+    case 'fixed-fraction':
+      return new FixedFractionSizer(config.fraction);
+    default:
+      throw new Error(`Unknown sizing strategy '${config.strategy}'`);
+  }
+}
@@ -0,0 +1,120 @@
+import { RiskEngine, RiskLimits, OrderIntent, PortfolioSnapshot } from './risk-engine';
+import { SimulatedClock } from '../utils/clock';
+import type { Trade } from '../services/agent-spawner';
+
+const HOUR = 60 * 60 * 1000;
+const NOON = Date.UTC(2024, 0, 15, 12);
+
+const limits: RiskLimits = {
+  maxTotalExposure: 5,
+  tokenExposureCaps: { low: 2, medium: 1, high: 0.5 },
+  maxTemplateExposure: 2,
+  dailyLossLimit: 0.5,
+  maxTradesPerHour: 3,
+  minEthReserve: 0.01
+};
+
+const buy = (value: number, overrides: Partial<OrderIntent> = {}): OrderIntent =>
+  ({ token: 'DEGEN', riskTier: 'medium', template: 'neutral', type: 'buy', value, ...overrides });
+
+const portfolio = (ethBalance: number, exposures: Record<string, number> = {}): PortfolioSnapshot =>
+  ({ ethBalance, exposures });
+
+let count = 0;
+const trade = (timestamp: number, overrides: Partial<Trade> = {}): Trade => ({
+  id: `trade-${count++}`,
+  timestamp,
+  token: 'DEGEN',
+  type: 'buy',
+  amount: '0.1',
+  price: '0.001',
+  txHash: '0x',
+  status: 'completed',
+  template: 'neutral',
+  ...overrides
+});
+
+describe('RiskEngine.check', () => {
+  let clock: SimulatedClock;
+  let engine: RiskEngine;
+
+  beforeEach(() => {
+    clock = new SimulatedClock(NOON);
+    engine = new RiskEngine(limits, clock);
+  });
+
+  it('approves an order within every limit', () => {
+    expect(engine.check(buy(0.5), portfolio(10)).approved).toBe(true);
+  });
+
+  it('limits trades per hour', () => {
+    for (let i = 0; i < 3; i++) {
+      engine.recordTrade(trade(NOON - i * 10 * 60 * 1000));
+    }
+    expect(engine.check(buy(0.1), portfolio(10)).reason).toBe('trade_rate_limit');
+
+    clock.advance(HOUR);
+    expect(engine.check(buy(0.1), portfolio(10)).approved).toBe(true);
+  });
+
+  it('keeps an ETH reserve, counting the order amount only for buys', () => {
+    expect(engine.check(buy(0.995), portfolio(1)).reason).toBe('eth_reserve');
+    expect(engine.check(buy(0.1, { type: 'sell' }), portfolio(0.02)).approved).toBe(true);
+    expect(engine.check(buy(0.1, { type: 'sell' }), portfolio(0.005)).reason).toBe('eth_reserve');
+  });
+
+  it('never holds back exit and unwind sells', () => {
+    for (let i = 0; i < 3; i++) {
+      engine.recordTrade(trade(NOON - i * 10 * 60 * 1000));
+    }
+    const exit = buy(0.5, { type: 'sell', reducing: true });
+    expect(engine.check(exit, portfolio(0.001)).approved).toBe(true);
+    expect(engine.check({ ...exit, reducing: false }, portfolio(0.001)).reason).toBe('trade_rate_limit');
+  });
+
+  it('stops buying once the realized loss since UTC midnight hits the limit', () => {
+    engine.recordTrade(trade(NOON - HOUR, { type: 'sell', realizedPnl: '-0.6' }));
+    expect(engine.check(buy(0.1), portfolio(10)).reason).toBe('daily_loss_limit');
+    expect(engine.check(buy(0.1, { type: 'sell' }), portfolio(10)).approved).toBe(true);
+
+    // Yesterday's losses do not count
+    clock.advance(13 * HOUR);
+    expect(engine.check(buy(0.1), portfolio(10)).approved).toBe(true);
+  });
+
+  it('caps total, per-token and per-template exposure', () => {
+    expect(engine.check(buy(1), portfolio(10, { A: 3, B: 1.5 })).reason).toBe('total_exposure');
+    expect(engine.check(buy(0.6), portfolio(10, { DEGEN: 0.5 })).reason).toBe('token_exposure');
+    expect(engine.check(buy(0.6, { riskTier: 'low' }), portfolio(10, { DEGEN: 0.5 })).approved).toBe(true);
+
+    engine.recordTrade(trade(NOON, { amount: '1.8', fill: { amountIn: '1.8', amountOut: '1800', gasUsed: '0' } }));
+    expect(engine.check(buy(0.3, { riskTier: 'low' }), portfolio(10)).reason).toBe('template_exposure');
+    expect(engine.check(buy(0.3, { riskTier: 'low', template: 'aggressive-long' }), portfolio(10)).approved).toBe(true);
+  });
+
+  it('releases template exposure by the cost basis of what was sold', () => {
+    engine.recordTrade(trade(NOON - 2 * HOUR, { amount: '1.8' }));
+    // Sold for 1.0 with 0.1 profit, so 0.9 of cost basis is gone
+    engine.recordTrade(trade(NOON - HOUR, {
+      type: 'sell',
+      amount: '1000',
+      realizedPnl: '0.1',
+      fill: { amountIn: '1000', amountOut: '1.0', gasUsed: '0' }
+    }));
+    expect(engine.getStatus().templateExposure.neutral).toBeCloseTo(0.9);
+  });
+
+  it('applies a trade to exposure once, however often it is recorded', () => {
+    const settled = trade(NOON, { amount: '0.5' });
+    engine.recordTrade({ ...settled, status: 'pending' });
+    engine.recordTrade(settled);
+    engine.recordTrade(settled);
+    expect(engine.getStatus().templateExposure.neutral).toBeCloseTo(0.5);
+  });
+
+  it('keeps the latest rejections', () => {
+    engine.check(buy(0.995), portfolio(1));
+    const [rejection] = engine.getStatus().rejections;
+    expect(rejection).toMatchObject({ token: 'DEGEN', reason: 'eth_reserve', timestamp: NOON });
+  });
+});
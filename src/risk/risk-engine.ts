@@ -0,0 +1,245 @@
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import { RiskTier } from '../config/token-registry';
+import { Clock, systemClock } from '../utils/clock';
+import type { Trade } from '../services/agent-spawner';
+
+export type RiskRejectionReason =
+  | 'trade_rate_limit'
+  | 'eth_reserve'
+  | 'daily_loss_limit'
+  | 'total_exposure'
+  | 'token_exposure'
+  | 'template_exposure';
+
+// All amounts are in ETH
+export interface RiskLimits {
+  maxTotalExposure: number;
+  tokenExposureCaps: Record<RiskTier, number>;  // Per-token cap, by the token's risk tier
+  maxTemplateExposure: number;
+  dailyLossLimit: number;                       // Realized loss since UTC midnight
+  maxTradesPerHour: number;
+  minEthReserve: number;                        // ETH left untouched for gas
+}
+
+export interface OrderIntent {
+  token: string;
+  riskTier: RiskTier;
+  template: string;
+  type: 'buy' | 'sell';
+  value: number;            // Order size in ETH
+  reducing?: boolean;       // Exit or unwind sell; never held back, since holding on is the bigger risk
+}
+
+export interface PortfolioSnapshot {
+  ethBalance: number;
+  exposures: Record<string, number>;  // token -> position value in ETH
+}
+
+export interface RiskDecision {
+  approved: boolean;
+  reason?: RiskRejectionReason;
+  detail?: string;
+}
+
+export interface RiskRejection extends OrderIntent {
+  timestamp: number;
+  reason: RiskRejectionReason;
+  detail: string;
+}
+
+export interface RiskStatus {
+  limits: RiskLimits;
+  templateExposure: Record<string, number>;
+  realizedPnlToday: number;
+  tradesLastHour: number;
+  rejections: RiskRejection[];
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export class RiskEngine {
+  private logger: Logger;
+  private recentTrades: Map<string, Trade>;       // trade id -> trade, last 24h
+  private settled: Set<string>;                   // Completed trades already applied to template exposure
+  private templateExposure: Map<string, number>;  // template -> ETH cost basis
+  private rejections: RiskRejection[];
+
+  constructor(private limits: RiskLimits, private clock: Clock = systemClock) {
+    this.logger = createLogger('RiskEngine');
+    this.recentTrades = new Map();
+    this.settled = new Set();
+    this.templateExposure = new Map();
+    this.rejections = [];
+  }
+
+  // Rebuilds counters and template exposure from the persisted trade history
+  restore(trades: Trade[]) {
+    for (const trade of trades) {
+      this.recordTrade(trade);
+    }
+    this.logger.info('Restored risk state', {
+      templateExposure: Object.fromEntries(this.templateExposure),
+      tradesLastHour: this.tradesSince(this.clock.now() - HOUR)
+    });
+  }
+
+  // Safe to call more than once per trade, e.g. on submission and again on settlement
+  recordTrade(trade: Trade) {
+    if (trade.timestamp >= this.clock.now() - DAY) {
+      this.recentTrades.set(trade.id, trade);
+    }
+
+    if (trade.status !== 'completed' || this.settled.has(trade.id)) return;
+    this.settled.add(trade.id);
+
+    const template = trade.template || 'unknown';
+    const current = this.templateExposure.get(template) || 0;
+    let change: number;
+    if (trade.type === 'buy') {
+      change = Number(trade.fill?.amountIn ?? trade.amount);
+    } else {
+      // Remove the cost basis of what was sold: proceeds minus realized profit
+      const proceeds = Number(trade.fill?.amountOut ?? Number(trade.amount) * Number(trade.price));
+      change = -(proceeds - Number(trade.realizedPnl || 0));
+    }
+    this.templateExposure.set(template, Math.max(0, current + change));
+  }
+
+  private prune(now: number) {
+    for (const [id, trade] of this.recentTrades.entries()) {
+      if (trade.timestamp < now - DAY) {
+        this.recentTrades.delete(id);
+      }
+    }
+  }
+
+  private tradesSince(since: number): number {
+    let count = 0;
+    for (const trade of this.recentTrades.values()) {
+      if (trade.timestamp >= since) count++;
+    }
+    return count;
+  }
+
+  private realizedPnlSince(since: number): number {
+    let pnl = 0;
+    for (const trade of this.recentTrades.values()) {
+      if (trade.timestamp >= since && trade.status === 'completed' && trade.realizedPnl) {
+        pnl += Number(trade.realizedPnl);
+      }
+    }
+    return pnl;
+  }
+
+  private startOfDay(now: number): number {
+    const date = new Date(now);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  }
+
+  private evaluate(order: OrderIntent, portfolio: PortfolioSnapshot, now: number): RiskDecision {
+    // Stop-loss, trailing-stop and kill-unwind sells skip the rate and reserve limits too
+    if (order.type === 'sell' && order.reducing) {
+      return { approved: true };
+    }
+
+    const tradesLastHour = this.tradesSince(now - HOUR);
+    if (tradesLastHour >= this.limits.maxTradesPerHour) {
+      return {
+        approved: false,
+        reason: 'trade_rate_limit',
+        detail: `${tradesLastHour} trades in the last hour, limit ${this.limits.maxTradesPerHour}`
+      };
+    }
+
+    // Sells only spend gas, buys also spend the order amount
+    const remaining = portfolio.ethBalance - (order.type === 'buy' ? order.value : 0);
+    if (remaining < this.limits.minEthReserve) {
+      return {
+        approved: false,
+        reason: 'eth_reserve',
+        detail: `Would leave ${remaining} ETH, reserve ${this.limits.minEthReserve} ETH`
+      };
+    }
+
+    // The remaining limits only restrict adding risk
+    if (order.type === 'sell') {
+      return { approved: true };
+    }
+
+    const realizedToday = this.realizedPnlSince(this.startOfDay(now));
+    if (realizedToday <= -this.limits.dailyLossLimit) {
+      return {
+        approved: false,
+        reason: 'daily_loss_limit',
+        detail: `Realized ${realizedToday} ETH today, limit -${this.limits.dailyLossLimit} ETH`
+      };
+    }
+
+    const totalExposure = Object.values(portfolio.exposures).reduce((sum, value) => sum + value, 0);
+    if (totalExposure + order.value > this.limits.maxTotalExposure) {
+      return {
+        approved: false,
+        reason: 'total_exposure',
+        detail: `Exposure would be ${totalExposure + order.value} ETH, cap ${this.limits.maxTotalExposure} ETH`
+      };
+    }
+
+    const tokenExposure = portfolio.exposures[order.token] || 0;
+    const tokenCap = this.limits.tokenExposureCaps[order.riskTier];
+    if (tokenExposure + order.value > tokenCap) {
+      return {
+        approved: false,
+        reason: 'token_exposure',
+        detail: `${order.token} exposure would be ${tokenExposure + order.value} ETH, ${order.riskTier}-tier cap ${tokenCap} ETH`
+      };
+    }
+
+    const templateExposure = this.templateExposure.get(order.template) || 0;
+    if (templateExposure + order.value > this.limits.maxTemplateExposure) {
+      return {
+        approved: false,
+        reason: 'template_exposure',
+        detail: `${order.template} exposure would be ${templateExposure + order.value} ETH, cap ${this.limits.maxTemplateExposure} ETH`
+      };
+    }
+
+    return { approved: true };
+  }
+
+  check(order: OrderIntent, portfolio: PortfolioSnapshot): RiskDecision {
+    const now = this.clock.now();
+    this.prune(now);
+
+    const decision = this.evaluate(order, portfolio, now);
+    if (!decision.approved) {
+      const rejection: RiskRejection = {
+        ...order,
+        timestamp: now,
+        reason: decision.reason!,
+        detail: decision.detail!
+      };
+      this.rejections.push(rejection);
+      if (this.rejections.length > 20) {
+        this.rejections = this.rejections.slice(-20);
+      }
+      this.logger.warn('Order rejected by risk engine', rejection);
+    }
+
+    return decision;
+  }
+
+  getStatus(): RiskStatus {
+    const now = this.clock.now();
+    this.prune(now);
+
+    return {
+      limits: this.limits,
+      templateExposure: Object.fromEntries(this.templateExposure),
+      realizedPnlToday: this.realizedPnlSince(this.startOfDay(now)),
+      tradesLastHour: this.tradesSince(now - HOUR),
+      rejections: [...this.rejections]
+    };
+  }
+}
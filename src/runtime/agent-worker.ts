@@ -0,0 +1,131 @@
+import { parentPort, workerData } from 'worker_threads';
+import { ethers } from 'ethers';
+import { createLogger } from '../utils/logger';
+import { PriceOracle } from '../services/price-oracle';
+import { AgentRuntimeSpec, RuntimeCommand, RuntimeMessage } from './deployment';
+import { getTemplate, templateDefaults } from './templates';
+
+// Entry point of one agent's worker thread: runs its template loop and reports to the host.
+// Trades are requested from the host, which signs them with this agent's wallet through the
+// wallet's single nonce queue.
+const spec = workerData as AgentRuntimeSpec;
+const logger = createLogger(`Agent:${spec.agentId}`);
+const provider = new ethers.JsonRpcProvider(spec.rpcUrl);
+const oracle = new PriceOracle(provider);
+const template = getTemplate(spec.template);
+const params = { ...templateDefaults(template), ...spec.params };
+const state = { ...spec.state };
+
+let ticks = 0;
+let lastPrice: number | null = null;
+let lastPriceAt: number | null = null;
+let paused: string | null = null;   // Set by the host's health rules; heartbeats continue
+let stopped = false;
+let requests = 0;
+const timers: NodeJS.Timeout[] = [];
+
+// Side of each outstanding request, so its result is applied the right way round
+const outstanding: Map<string, 'buy' | 'sell'> = new Map();
+
+function post(message: RuntimeMessage) {
+  parentPort?.postMessage(message);
+}
+
+async function heartbeat() {
+  let ethBalance: string | null = null;
+  try {
+    ethBalance = ethers.formatEther(await provider.getBalance(spec.address));
+  } catch (error) {
+    logger.warn('Could not read wallet balance', { error });
+  }
+
+  post({
+    type: 'heartbeat',
+    timestamp: Date.now(),
+    status: { template: template.name, ticks, lastPrice, lastPriceAt, paused, ethBalance, state }
+  });
+}
+
+async function tick() {
+  if (stopped || state.pending) return;
+
+  try {
+    const price = await oracle.getPrice(spec.tokenAddress);
+    if (!price) return;
+    lastPrice = price.twap ?? price.spot;
+    lastPriceAt = Date.now();
+    ticks++;
+
+    // Paused agents keep reading prices, so the stale-price rule can clear, but do not trade
+    if (paused) return;
+
+    const request = template.tick(state, lastPrice, params);
+    if (request) {
+      const requestId = `${spec.agentId}-${++requests}`;
+      state.pending = true;
+      outstanding.set(requestId, request.side);
+      logger.info('Requesting trade', { requestId, request });
+      post({ type: 'trade-request', requestId, request });
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+function applyResult(command: Extract<RuntimeCommand, { type: 'trade-result' }>, side: 'buy' | 'sell') {
+  if (command.status !== 'completed') {
+    logger.warn('Trade request not filled', { requestId: command.requestId, status: command.status, reason: command.reason });
+    return;
+  }
+
+  const price = Number(command.price);
+  if (side === 'buy') {
+    const received = Number(command.amountOut);
+    state.entryPrice = (state.entryPrice * state.holding + price * received) / (state.holding + received);
+    state.holding += received;
+    state.lastBuyPrice = price;
+    state.adds++;
+  } else {
+    state.holding = Math.max(0, state.holding - Number(command.amountIn));
+    state.trimmed = true;
+  }
+}
+
+parentPort?.on('message', (command: RuntimeCommand) => {
+  switch (command.type) {
+    case 'trade-result': {
+      const side = outstanding.get(command.requestId);
+      outstanding.delete(command.requestId);
+      state.pending = false;
+      if (side) {
+        applyResult(command, side);
+      }
+      break;
+    }
+    case 'notification':
+      logger.info('Notification received', { notification: command.notification });
+      if (command.notification.type === 'position-closed') {
+        state.holding = 0;
+      }
+      break;
+    case 'pause':
+      paused = command.reason;
+      logger.warn('Trading paused', { reason: command.reason });
+      break;
+    case 'resume':
+      paused = null;
+      logger.info('Trading resumed');
+      break;
+    case 'stop':
+      stopped = true;
+      timers.forEach(timer => clearInterval(timer));
+      heartbeat().finally(() => process.exit(0));
+      break;
+  }
+});
+
+logger.info('Agent runtime started', { template: template.name, token: spec.token, address: spec.address });
+timers.push(setInterval(() => { heartbeat(); }, spec.heartbeatInterval));
+timers.push(setInterval(() => { tick(); }, spec.tickInterval));
+heartbeat();
+tick();
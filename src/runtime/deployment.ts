@@ -0,0 +1,58 @@
+import type { AgentNotification } from '../factory/autonome-factory';
+import type { TradeRequest, TemplateConfig, TemplateState } from './templates';
+import { EventBus } from '../events/event-bus';
+import { LocalRuntimeAdapter } from './local-runtime';
+
+// Everything a runtime needs to start an agent; plain data so it can cross a thread or the network
+export interface AgentRuntimeSpec {
+  agentId: string;
+  template: string;
+  token: string;
+  tokenAddress: string;
+  address: string;              // The agent's own wallet; trades it requests are signed with this key
+  params: TemplateConfig;       // Template parameters, including capital and maxSlippage
+  state: TemplateState;         // Where the template loop resumes from
+  rpcUrl: string;
+  tickInterval: number;         // ms between template evaluations
+  heartbeatInterval: number;    // ms between heartbeats
+}
+
+// Agent -> host
+export type RuntimeMessage =
+  | { type: 'heartbeat'; timestamp: number; status: Record<string, any> }
+  | { type: 'trade-request'; requestId: string; request: TradeRequest }
+  | { type: 'error'; message: string };
+
+// Host -> agent
+export type RuntimeCommand =
+  | { type: 'trade-result'; requestId: string; status: 'completed' | 'rejected' | 'failed'; amountIn?: string; amountOut?: string; price?: string; reason?: string }
+  | { type: 'notification'; notification: AgentNotification }
+  | { type: 'pause'; reason: string }
+  | { type: 'resume' }
+  | { type: 'stop' };
+
+export interface DeploymentInfo {
+  agentId: string;
+  runtime: string;
+  reference: string;            // Thread id, process id or remote deployment id
+  startedAt: number;
+}
+
+// Where agents actually run. The local adapter uses worker threads; a remote Autonome
+// adapter implements the same contract and reports back through the same bus events.
+export interface DeploymentAdapter {
+  readonly name: string;
+  deploy(spec: AgentRuntimeSpec): Promise<DeploymentInfo>;
+  send(agentId: string, command: RuntimeCommand): Promise<void>;
+  stop(agentId: string): Promise<void>;
+  list(): DeploymentInfo[];
+}
+
+export function createDeploymentAdapter(runtime: string = 'local', events?: EventBus): DeploymentAdapter {
+  switch (runtime) {
+    case 'local':
+      return new LocalRuntimeAdapter(events);
+    default:
+      throw new Error(`Unknown agent runtime '${runtime}'`);
+  }
+}
@@ -0,0 +1,102 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import { EventBus, getEventBus } from '../events/event-bus';
+import { AgentRuntimeSpec, DeploymentAdapter, DeploymentInfo, RuntimeCommand, RuntimeMessage } from './deployment';
+
+// Runs each agent in its own worker thread in this process. Heartbeats, trade requests and
+// exits are republished on the event bus; nothing here knows about the spawner.
+export class LocalRuntimeAdapter implements DeploymentAdapter {
+  readonly name = 'local';
+  private logger: Logger;
+  private workers: Map<string, { worker: Worker; info: DeploymentInfo }>;
+
+  constructor(private events: EventBus = getEventBus()) {
+    this.logger = createLogger('LocalRuntime');
+    this.workers = new Map();
+  }
+
+  async deploy(spec: AgentRuntimeSpec): Promise<DeploymentInfo> {
+    if (this.workers.has(spec.agentId)) {
+      throw new Error(`Agent ${spec.agentId} is already running`);
+    }
+
+    // Under ts-node the worker source is TypeScript and needs the same loader
+    const extension = path.extname(__filename);
+    const worker = new Worker(path.join(__dirname, `agent-worker${extension}`), {
+      workerData: spec,
+      execArgv: extension === '.ts' ? ['--require', 'ts-node/register'] : undefined
+    });
+
+    const info: DeploymentInfo = {
+      agentId: spec.agentId,
+      runtime: this.name,
+      reference: `thread-${worker.threadId}`,
+      startedAt: Date.now()
+    };
+    this.workers.set(spec.agentId, { worker, info });
+
+    worker.on('message', (message: RuntimeMessage) => this._handle(spec.agentId, message));
+    worker.on('error', error => {
+      this.logger.error('Agent worker crashed', { error, agentId: spec.agentId });
+    });
+    worker.on('exit', async code => {
+      this.workers.delete(spec.agentId);
+      this.logger.info('Agent worker exited', { agentId: spec.agentId, code });
+      await this.events.publish('AgentRuntimeExited', { agentId: spec.agentId, runtime: this.name, code });
+    });
+
+    this.logger.info('Agent deployed to worker thread', { agentId: spec.agentId, threadId: worker.threadId });
+    return info;
+  }
+
+  async send(agentId: string, command: RuntimeCommand): Promise<void> {
+    const entry = this.workers.get(agentId);
+    if (!entry) {
+      this.logger.warn('No running worker for agent', { agentId, command: command.type });
+      return;
+    }
+    entry.worker.postMessage(command);
+  }
+
+  // Asks the agent to stop, then terminates the thread if it does not exit in time
+  async stop(agentId: string): Promise<void> {
+    const entry = this.workers.get(agentId);
+    if (!entry) return;
+
+    const exited = new Promise<void>(resolve => entry.worker.once('exit', () => resolve()));
+    entry.worker.postMessage({ type: 'stop' } as RuntimeCommand);
+    const timeout = new Promise<'timeout'>(resolve => setTimeout(() => resolve('timeout'), 10000).unref());
+    if (await Promise.race([exited, timeout]) === 'timeout') {
+      this.logger.warn('Agent worker did not stop, terminating', { agentId });
+      await entry.worker.terminate();
+    }
+  }
+
+  list(): DeploymentInfo[] {
+    return Array.from(this.workers.values()).map(entry => entry.info);
+  }
+
+  private async _handle(agentId: string, message: RuntimeMessage) {
+    switch (message.type) {
+      case 'heartbeat':
+        await this.events.publish('AgentHeartbeat', {
+          agentId,
+          timestamp: message.timestamp,
+          status: message.status
+        });
+        break;
+      case 'trade-request':
+        await this.events.publish('AgentTradeRequested', {
+          agentId,
+          requestId: message.requestId,
+          request: message.request
+        });
+        break;
+      case 'error':
+        this.logger.error('Agent reported an error', { agentId, message: message.message });
+        break;
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { getTemplate, listTemplates, templateDefaults, validateTemplateConfig } from './templates';
+
+describe('validateTemplateConfig', () => {
+  const template = getTemplate('aggressive-long');
+
+  it('accepts a config inside the schema unchanged', () => {
+    const proposed = templateDefaults(template);
+    const validation = validateTemplateConfig(template, proposed);
+    expect(validation.config).toEqual(proposed);
+    expect(validation.adjustments).toEqual([]);
+  });
+
+  it('clamps values outside the bounds', () => {
+    const validation = validateTemplateConfig(template, { ...templateDefaults(template), maxSlippage: 15, stopLoss: 0.5 });
+    expect(validation.config.maxSlippage).toBe(2);
+    expect(validation.config.stopLoss).toBe(2);
+    expect(validation.adjustments).toEqual([
+      { param: 'maxSlippage', proposed: 15, applied: 2, reason: 'clamped' },
+      { param: 'stopLoss', proposed: 0.5, applied: 2, reason: 'clamped' }
+    ]);
+  });
+
+  it('rounds integer parameters', () => {
+    const validation = validateTemplateConfig(template, { ...templateDefaults(template), maxAdds: 2.6 });
+    expect(validation.config.maxAdds).toBe(3);
+    expect(validation.adjustments).toEqual([{ param: 'maxAdds', proposed: 2.6, applied: 3, reason: 'rounded' }]);
+  });
+
+  it('falls back to defaults for missing and non-numeric values, accepting numeric strings', () => {
+    const validation = validateTemplateConfig(template, { capital: '0.2', stopLoss: 'tight' });
+    expect(validation.config.capital).toBe(0.2);
+    expect(validation.config.stopLoss).toBe(template.params.stopLoss.default);
+    expect(validation.config.targetProfit).toBe(template.params.targetProfit.default);
+    expect(validation.adjustments).toContainEqual({ param: 'stopLoss', proposed: 'tight', applied: 10, reason: 'invalid' });
+    expect(validation.adjustments).toContainEqual({ param: 'targetProfit', proposed: undefined, applied: 30, reason: 'missing' });
+  });
+
+  it('drops and reports parameters the template does not declare', () => {
+    const validation = validateTemplateConfig(template, { ...templateDefaults(template), leverage: 10 });
+    expect(validation.config).not.toHaveProperty('leverage');
+    expect(validation.adjustments).toEqual([{ param: 'leverage', proposed: 10, reason: 'unknown' }]);
+  });
+
+  it('treats a non-object proposal as empty', () => {
+    const validation = validateTemplateConfig(template, 'buy everything');
+    expect(validation.config).toEqual(templateDefaults(template));
+    expect(validation.adjustments.every(adjustment => adjustment.reason === 'missing')).toBe(true);
+  });
+});
+
+describe('templates', () => {
+  it('declares defaults inside their own bounds for every template', () => {
+    for (const template of listTemplates()) {
+      const validation = validateTemplateConfig(template, templateDefaults(template));
+      expect(validation.adjustments).toEqual([]);
+      expect(template.params.maxSlippage).toBeDefined();
+    }
+  });
+
+  it('falls back to neutral for unknown names', () => {
+    expect(getTemplate('moonshot').name).toBe('neutral');
+  });
+
+  it('derives exit rules from the validated config', () => {
+    const template = getTemplate('aggressive-long');
+    expect(template.exits(templateDefaults(template))).toEqual({
+      stopLoss: 10,
+      takeProfit: 30,
+      maxHoldingTime: 72 * 60 * 60 * 1000,
+      trailingStop: 8
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import type { ExitConfig } from '../risk/exit-manager';
+import type { RuleSetting } from '../health/rules';
+
+// Trade an agent asks its host to make. Buys are sized in ETH, sells in tokens.
+export interface TradeRequest {
+  side: 'buy' | 'sell';
+  amount: string;
+  reason: string;
+}
+
+export interface TemplateState {
+  entryPrice: number;           // Average price paid, ETH per token
+  lastBuyPrice: number;
+  holding: number;              // Tokens held by the agent's wallet
+  adds: number;                 // Buys made after the opening trade
+  trimmed: boolean;             // Whether profit has already been taken
+  pending: boolean;             // A trade request is awaiting its result
+}
+
+// Bounds for one numeric template parameter
+export interface ParamSpec {
+  min: number;
+  max: number;
+  default: number;
+  integer?: boolean;
+  description: string;
+}
+
+export type ParamSchema = Record<string, ParamSpec>;
+export type TemplateConfig = Record<string, number>;
+
+// How the health monitor judges agents running the template
+export interface TemplateHealth {
+  warmup?: number;              // Milliseconds before ROI rules apply
+  rules?: Record<string, RuleSetting>;
+}
+
+export interface AgentTemplate {
+  name: string;
+  side: 'buy' | 'sell';         // Direction of the opening trade
+  params: ParamSchema;
+  health?: TemplateHealth;
+  // Exit rules the host applies to the position the template opened
+  exits(config: TemplateConfig): ExitConfig;
+  // Entry logic run by the agent's loop after the opening trade
+  tick(state: TemplateState, price: number, params: Record<string, any>): TradeRequest | null;
+}
+
+// What validation changed in a proposed config
+export interface ConfigAdjustment {
+  param: string;
+  proposed: unknown;
+  applied?: number;
+  reason: 'missing' | 'invalid' | 'clamped' | 'rounded' | 'unknown';
+}
+
+export interface ConfigValidation {
+  template: string;
+  config: TemplateConfig;
+  adjustments: ConfigAdjustment[];
+}
+
+// Parameters every template trades with; templates narrow the bounds to suit their risk
+const capital = (max: number, fallback: number): ParamSpec =>
+  ({ min: 0.001, max, default: fallback, description: 'ETH committed to the agent' });
+const maxSlippage = (max: number, fallback: number): ParamSpec =>
+  ({ min: 0.05, max, default: fallback, description: 'Maximum slippage per swap, percent' });
+const stopLoss = (min: number, max: number, fallback: number): ParamSpec =>
+  ({ min, max, default: fallback, description: 'Loss from entry that closes the position, percent' });
+const targetProfit = (min: number, max: number, fallback: number): ParamSpec =>
+  ({ min, max, default: fallback, description: 'Gain from entry that closes the position, percent' });
+const maxHoldingHours = (max: number, fallback: number): ParamSpec =>
+  ({ min: 1, max, default: fallback, integer: true, description: 'Hours before the position is closed regardless' });
+
+const HOUR = 60 * 60 * 1000;
+
+const change = (price: number, reference: number) => reference > 0 ? (price - reference) / reference * 100 : 0;
+
+const longExits = (config: TemplateConfig): ExitConfig => ({
+  stopLoss: config.stopLoss,
+  takeProfit: config.targetProfit,
+  maxHoldingTime: config.maxHoldingHours * HOUR
+});
+
+// Buys dips below the last fill, a fraction of capital each time, up to maxAdds times.
+// Gives the position room with a wide stop and lets winners run behind a trailing stop.
+const aggressiveLong: AgentTemplate = {
+  name: 'aggressive-long',
+  side: 'buy',
+  params: {
+    capital: capital(1, 0.1),
+    maxSlippage: maxSlippage(2, 1),
+    stopLoss: stopLoss(2, 25, 10),
+    targetProfit: targetProfit(5, 200, 30),
+    maxHoldingHours: maxHoldingHours(168, 72),
+    trailingStop: { min: 2, max: 30, default: 8, description: 'Drop from peak that closes the position, percent' },
+    dipPercent: { min: 0.5, max: 20, default: 3, description: 'Drop below the last buy that triggers an add, percent' },
+    addFraction: { min: 0.05, max: 1, default: 0.25, description: 'Fraction of capital spent on each add' },
+    maxAdds: { min: 0, max: 5, default: 2, integer: true, description: 'Adds after the opening trade' }
+  },
+  // Dip buying draws down before it pays off
+  health: {
+    warmup: 4 * HOUR,
+    rules: {
+      'trailing-drawdown': { threshold: 40 },
+      'gas-burn': { threshold: 15 }
+    }
+  },
+  exits(config) {
+    return { ...longExits(config), trailingStop: config.trailingStop };
+  },
+  tick(state, price, params) {
+    if (state.adds >= params.maxAdds) return null;
+    const drop = -change(price, state.lastBuyPrice);
+    if (drop < params.dipPercent) return null;
+    return {
+      side: 'buy',
+      amount: (params.capital * params.addFraction).toFixed(6),
+      reason: `Price ${drop.toFixed(2)}% below last buy, adding ${params.addFraction * 100}% of capital`
+    };
+  }
+};
+
+// Takes part of the position off once it is up trimPercent from entry; tight stop, short hold
+const conservativeLong: AgentTemplate = {
+  name: 'conservative-long',
+  side: 'buy',
+  params: {
+    capital: capital(0.5, 0.05),
+    maxSlippage: maxSlippage(1, 0.5),
+    stopLoss: stopLoss(1, 10, 5),
+    targetProfit: targetProfit(2, 50, 15),
+    maxHoldingHours: maxHoldingHours(72, 24),
+    trimPercent: { min: 1, max: 50, default: 10, description: 'Gain from entry that triggers the trim, percent' },
+    trimFraction: { min: 0.1, max: 1, default: 0.5, description: 'Fraction of the holding sold by the trim' }
+  },
+  health: {
+    warmup: 2 * HOUR,
+    rules: {
+      'min-roi': { threshold: 5 },
+      'trailing-drawdown': { threshold: 15 },
+      'consecutive-failures': { threshold: 2 }
+    }
+  },
+  exits: longExits,
+  tick(state, price, params) {
+    if (state.trimmed || state.holding <= 0) return null;
+    const gain = change(price, state.entryPrice);
+    if (gain < params.trimPercent) return null;
+    return {
+      side: 'sell',
+      amount: (state.holding * params.trimFraction).toString(),
+      reason: `Price +${gain.toFixed(2)}% from entry, trimming ${params.trimFraction * 100}%`
+    };
+  }
+};
+
+// Short templates reduce existing holdings; no agent runs after the sell
+const noExits = (): ExitConfig => ({});
+const noEntries = () => null;
+
+const conservativeShort: AgentTemplate = {
+  name: 'conservative-short',
+  side: 'sell',
+  params: {
+    capital: capital(0.5, 0.05),
+    maxSlippage: maxSlippage(1, 0.5)
+  },
+  exits: noExits,
+  tick: noEntries
+};
+
+const aggressiveShort: AgentTemplate = {
+  name: 'aggressive-short',
+  side: 'sell',
+  params: {
+    capital: capital(1, 0.1),
+    maxSlippage: maxSlippage(2, 1)
+  },
+  exits: noExits,
+  tick: noEntries
+};
+
+// Holds and reports; the stop-loss, take-profit and holding limit do the exiting
+const neutral: AgentTemplate = {
+  name: 'neutral',
+  side: 'buy',
+  params: {
+    capital: capital(0.25, 0.05),
+    maxSlippage: maxSlippage(1, 0.5),
+    stopLoss: stopLoss(1, 15, 5),
+    targetProfit: targetProfit(2, 100, 15),
+    maxHoldingHours: maxHoldingHours(72, 24)
+  },
+  // Never trades after the opening buy, so there is no return to hold it to
+  health: {
+    rules: {
+      'min-roi': { enabled: false },
+      'consecutive-failures': { enabled: false }
+    }
+  },
+  exits: longExits,
+  tick: noEntries
+};
+
+export const TEMPLATES: Record<string, AgentTemplate> = {
+  [aggressiveLong.name]: aggressiveLong,
+  [conservativeLong.name]: conservativeLong,
+  [neutral.name]: neutral,
+  [conservativeShort.name]: conservativeShort,
+  [aggressiveShort.name]: aggressiveShort
+};
+
+export function getTemplate(name: string): AgentTemplate {
+  return TEMPLATES[name] || neutral;
+}
+
+export function listTemplates(): AgentTemplate[] {
+  return Object.values(TEMPLATES);
+}
+
+export function templateDefaults(template: AgentTemplate): TemplateConfig {
+  const config: TemplateConfig = {};
+  for (const [param, spec] of Object.entries(template.params)) {
+    config[param] = spec.default;
+  }
+  return config;
+}
+
+// Checks a proposed config, e.g. one adjusted by the LLM, against the template's schema.
+// Missing or non-numeric values take the default, out-of-range values are clamped and
+// parameters the template does not declare are dropped; every change is reported.
+export function validateTemplateConfig(template: AgentTemplate, proposed: unknown): ConfigValidation {
+  const raw = proposed && typeof proposed === 'object' ? proposed as Record<string, unknown> : {};
+  const config: TemplateConfig = {};
+  const adjustments: ConfigAdjustment[] = [];
+
+  for (const [param, spec] of Object.entries(template.params)) {
+    const value = raw[param];
+    if (value === undefined || value === null) {
+      config[param] = spec.default;
+      adjustments.push({ param, proposed: value, applied: spec.default, reason: 'missing' });
+      continue;
+    }
+
+    const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+    if (!Number.isFinite(number)) {
+      config[param] = spec.default;
+      adjustments.push({ param, proposed: value, applied: spec.default, reason: 'invalid' });
+      continue;
+    }
+
+    let applied = Math.min(spec.max, Math.max(spec.min, number));
+    if (applied !== number) {
+      adjustments.push({ param, proposed: value, applied, reason: 'clamped' });
+    }
+    if (spec.integer && !Number.isInteger(applied)) {
+      applied = Math.round(applied);
+      adjustments.push({ param, proposed: value, applied, reason: 'rounded' });
+    }
+    config[param] = applied;
+  }
+
+  for (const param of Object.keys(raw)) {
+    if (!(param in template.params)) {
+      adjustments.push({ param, proposed: raw[param], reason: 'unknown' });
+    }
+  }
+
+  return { template: template.name, config, adjustments };
+}
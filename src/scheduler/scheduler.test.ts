@@ -0,0 +1,126 @@
+import { Scheduler } from './scheduler';
+
+const MINUTE = 60 * 1000;
+
+// Lets the promise chains started by a timer settle
+const flush = async () => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('Scheduler', () => {
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    scheduler = new Scheduler({ jitter: 0, maxBackoff: 8 * MINUTE });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it('runs a job every interval, measured from the end of the last run', async () => {
+    const task = jest.fn(async () => undefined);
+    scheduler.add('job', task, { interval: MINUTE });
+
+    await jest.advanceTimersByTimeAsync(MINUTE - 1);
+    expect(task).toHaveBeenCalledTimes(0);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(MINUTE);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs immediately when asked to', async () => {
+    const task = jest.fn(async () => undefined);
+    scheduler.add('job', task, { interval: MINUTE, runImmediately: true });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('doubles the delay per consecutive failure up to the maximum backoff', async () => {
+    const task = jest.fn(async () => {
+      throw new Error('rpc down');
+    });
+    scheduler.add('job', task, { interval: MINUTE, runImmediately: true });
+    await jest.advanceTimersByTimeAsync(0);
+
+    const delays: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      const [info] = scheduler.list();
+      delays.push(info.nextRunAt! - Date.now());
+      await jest.advanceTimersByTimeAsync(info.nextRunAt! - Date.now());
+    }
+    expect(delays).toEqual([2 * MINUTE, 4 * MINUTE, 8 * MINUTE, 8 * MINUTE]);
+    expect(scheduler.list()[0]).toMatchObject({ consecutiveFailures: 5, lastError: 'rpc down' });
+  });
+
+  it('resets the backoff after a successful run', async () => {
+    let fail = true;
+    scheduler.add('job', async () => {
+      if (fail) throw new Error('once');
+    }, { interval: MINUTE, runImmediately: true });
+    await jest.advanceTimersByTimeAsync(0);
+    fail = false;
+
+    await jest.advanceTimersByTimeAsync(2 * MINUTE);
+    const [info] = scheduler.list();
+    expect(info.consecutiveFailures).toBe(0);
+    expect(info.nextRunAt! - Date.now()).toBe(MINUTE);
+  });
+
+  it('does not run paused jobs until resumed', async () => {
+    const task = jest.fn(async () => undefined);
+    scheduler.add('job', task, { interval: MINUTE });
+    scheduler.pause('job');
+    expect(scheduler.list()[0].status).toBe('paused');
+
+    await jest.advanceTimersByTimeAsync(5 * MINUTE);
+    expect(task).not.toHaveBeenCalled();
+
+    scheduler.resume('job');
+    await jest.advanceTimersByTimeAsync(MINUTE);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('never overlaps a job with itself; on-demand runs join the current run', async () => {
+    let release: () => void = () => undefined;
+    let active = 0;
+    let maxActive = 0;
+    const task = jest.fn(() => new Promise<void>(resolve => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      release = () => {
+        active--;
+        resolve();
+      };
+    }));
+    scheduler.add('job', task, { interval: MINUTE, runImmediately: true });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(scheduler.list()[0].status).toBe('running');
+
+    const joined = scheduler.runNow('job');
+    await jest.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    release();
+    await joined;
+    await flush();
+    expect(maxActive).toBe(1);
+    expect(scheduler.list()[0]).toMatchObject({ status: 'scheduled', runs: 1 });
+  });
+
+  it('lists jobs by group and forgets removed ones', () => {
+    scheduler.add('decision:DEGEN', async () => undefined, { interval: MINUTE, group: 'decision' });
+    scheduler.add('exits', async () => undefined, { interval: MINUTE, group: 'exits' });
+    expect(scheduler.list('decision').map(job => job.id)).toEqual(['decision:DEGEN']);
+
+    expect(scheduler.remove('exits')).toBe(true);
+    expect(scheduler.has('exits')).toBe(false);
+    expect(() => scheduler.add('bad', async () => undefined, { interval: 0 })).toThrow();
+    expect(() => scheduler.add('decision:DEGEN', async () => undefined, { interval: MINUTE })).toThrow();
+  });
+});
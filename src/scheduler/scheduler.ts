@@ -0,0 +1,235 @@
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+
+export interface JobOptions {
+  interval: number;             // Milliseconds between the end of one run and the start of the next
+  jitter?: number;              // Random spread as a share of the interval, e.g. 0.1 = ±10%
+  maxBackoff?: number;          // Longest delay after repeated failures, ms
+  runImmediately?: boolean;     // First run right away instead of after one interval
+  group?: string;               // For listing, e.g. 'decision' or 'health'
+}
+
+export type JobStatus = 'scheduled' | 'running' | 'paused';
+
+export interface JobInfo {
+  id: string;
+  group?: string;
+  status: JobStatus;
+  interval: number;
+  runs: number;
+  consecutiveFailures: number;
+  lastRunAt?: number;
+  lastDuration?: number;
+  lastError?: string;
+  nextRunAt?: number;
+}
+
+interface Job {
+  id: string;
+  task: () => Promise<void>;
+  options: JobOptions;
+  paused: boolean;
+  removed: boolean;
+  running: Promise<void> | null;
+  timer: NodeJS.Timeout | null;
+  runs: number;
+  consecutiveFailures: number;
+  lastRunAt?: number;
+  lastDuration?: number;
+  lastError?: string;
+  nextRunAt?: number;
+}
+
+// Runs recurring jobs on chained timeouts. A job never overlaps itself: the next run is
+// scheduled only after the current one settles, and on-demand runs join an in-flight run.
+export class Scheduler {
+  private logger: Logger;
+  private jobs: Map<string, Job>;
+
+  constructor(private defaults: { jitter: number; maxBackoff: number } = {
+    jitter: 0.1,
+    maxBackoff: 30 * 60 * 1000
+  }) {
+    this.logger = createLogger('Scheduler');
+    this.jobs = new Map();
+  }
+
+  add(id: string, task: () => Promise<void>, options: JobOptions): void {
+    if (this.jobs.has(id)) {
+      throw new Error(`Job ${id} is already scheduled`);
+    }
+    if (!(options.interval > 0)) {
+      throw new Error(`Job ${id} needs a positive interval`);
+    }
+
+    const job: Job = {
+      id,
+      task,
+      options,
+      paused: false,
+      removed: false,
+      running: null,
+      timer: null,
+      runs: 0,
+      consecutiveFailures: 0
+    };
+    this.jobs.set(id, job);
+    this.logger.info('Job scheduled', { id, interval: options.interval, group: options.group });
+
+    if (options.runImmediately) {
+      this._arm(job, 0);
+    } else {
+      this._arm(job, this._delay(job));
+    }
+  }
+
+  // Changes the cadence; takes effect from the next scheduled run
+  setInterval(id: string, interval: number): void {
+    const job = this._get(id);
+    job.options = { ...job.options, interval };
+    if (!job.running && !job.paused) {
+      this._arm(job, this._delay(job));
+    }
+  }
+
+  remove(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job) return false;
+
+    job.removed = true;
+    this._disarm(job);
+    this.jobs.delete(id);
+    this.logger.info('Job removed', { id });
+    return true;
+  }
+
+  has(id: string): boolean {
+    return this.jobs.has(id);
+  }
+
+  pause(id: string): void {
+    const job = this._get(id);
+    job.paused = true;
+    this._disarm(job);
+    this.logger.info('Job paused', { id });
+  }
+
+  resume(id: string): void {
+    const job = this._get(id);
+    if (!job.paused) return;
+
+    job.paused = false;
+    if (!job.running) {
+      this._arm(job, this._delay(job));
+    }
+    this.logger.info('Job resumed', { id });
+  }
+
+  // Runs a job now, even when paused. Joins the current run instead of starting a second one.
+  async runNow(id: string): Promise<void> {
+    const job = this._get(id);
+    if (job.running) {
+      return job.running;
+    }
+    this._disarm(job);
+    await this._run(job);
+  }
+
+  list(group?: string): JobInfo[] {
+    return Array.from(this.jobs.values())
+      .filter(job => !group || job.options.group === group)
+      .map(job => ({
+        id: job.id,
+        group: job.options.group,
+        status: job.paused ? 'paused' : job.running ? 'running' : 'scheduled',
+        interval: job.options.interval,
+        runs: job.runs,
+        consecutiveFailures: job.consecutiveFailures,
+        lastRunAt: job.lastRunAt,
+        lastDuration: job.lastDuration,
+        lastError: job.lastError,
+        nextRunAt: job.nextRunAt
+      }));
+  }
+
+  stop(): void {
+    for (const id of Array.from(this.jobs.keys())) {
+      this.remove(id);
+    }
+  }
+
+  private _get(id: string): Job {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Unknown job ${id}`);
+    }
+    return job;
+  }
+
+  private _arm(job: Job, delay: number) {
+    this._disarm(job);
+    job.nextRunAt = Date.now() + delay;
+    job.timer = setTimeout(() => {
+      job.timer = null;
+      this._run(job).catch(() => undefined);
+    }, delay);
+  }
+
+  private _disarm(job: Job) {
+    if (job.timer) {
+      clearTimeout(job.timer);
+      job.timer = null;
+    }
+    job.nextRunAt = undefined;
+  }
+
+  // Interval doubled per consecutive failure up to maxBackoff, then spread by jitter
+  private _delay(job: Job): number {
+    const maxBackoff = job.options.maxBackoff ?? this.defaults.maxBackoff;
+    const base = job.consecutiveFailures > 0
+      ? Math.min(job.options.interval * 2 ** job.consecutiveFailures, Math.max(maxBackoff, job.options.interval))
+      : job.options.interval;
+    const jitter = job.options.jitter ?? this.defaults.jitter;
+    return Math.max(0, Math.round(base * (1 + (Math.random() * 2 - 1) * jitter)));
+  }
+
+  private async _run(job: Job): Promise<void> {
+    const startedAt = Date.now();
+    job.lastRunAt = startedAt;
+    job.running = (async () => {
+      try {
+        await job.task();
+        job.consecutiveFailures = 0;
+        job.lastError = undefined;
+      } catch (error) {
+        job.consecutiveFailures++;
+        job.lastError = error instanceof Error ? error.message : String(error);
+        this.logger.error('Job failed', { id: job.id, error, consecutiveFailures: job.consecutiveFailures });
+      }
+    })();
+
+    try {
+      await job.running;
+    } finally {
+      job.running = null;
+      job.runs++;
+      job.lastDuration = Date.now() - startedAt;
+      if (!job.removed && !job.paused) {
+        this._arm(job, this._delay(job));
+      }
+    }
+  }
+}
+
+// One scheduler per process so every recurring job can be listed and controlled in one place
+let sharedScheduler: Scheduler | null = null;
+
+export function getScheduler(): Scheduler {
+  if (!sharedScheduler) {
+    sharedScheduler = new Scheduler({
+      jitter: Number(process.env.SCHEDULER_JITTER) || 0.1,
+      maxBackoff: Number(process.env.SCHEDULER_MAX_BACKOFF) || 30 * 60 * 1000
+    });
+  }
+  return sharedScheduler;
+}
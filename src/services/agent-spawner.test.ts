@@ -0,0 +1,269 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { AgentSpawner } from './agent-spawner';
+import { TradeExecutor, SwapResult } from './uniswap-service';
+import { TrackedTransaction } from './transaction-tracker';
+import { MarketAnalysis } from './twitter-sentiment';
+import { EvaluationResult } from '../ai/judge';
+import { SpawnedAgent } from '../factory/autonome-factory';
+import { TokenAmount } from '../utils/token-amount';
+import { getScheduler } from '../scheduler/scheduler';
+
+// Transactions the spawner sends itself (transfers, unwraps) go to the test's handler
+const mockSubmit = jest.fn();
+jest.mock('./transaction-queue', () => ({
+  getTransactionQueue: (wallet: { address: string }) => ({
+    submit: (description: string, tx: ethers.TransactionRequest) => mockSubmit(wallet.address, description, tx)
+  })
+}));
+
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const BASE = '0xfA980cEd6895AC314E7dE34Ef1bFAE90a5AdD21b';
+const ZERO = BigInt(0);
+
+const swap: SwapResult = {
+  hash: '0xswap',
+  quote: {
+    amountIn: ethers.parseEther('0.1'),
+    amountOut: ethers.parseEther('100'),
+    minAmountOut: ethers.parseEther('99'),
+    priceImpact: 0,
+    gasEstimate: BigInt(150000),
+    route: { tokens: [], fees: [], encodedPath: '0x' }
+  }
+};
+
+const tracked = (outcome: TrackedTransaction['outcome']): TrackedTransaction => ({
+  hash: '0xswap',
+  outcome,
+  receipt: null,
+  fill: outcome === 'confirmed'
+    ? { amountIn: ethers.parseEther('0.1'), amountOut: ethers.parseEther('100'), hops: 1 }
+    : null,
+  gasUsed: ZERO,
+  gasCost: ZERO,
+  reason: outcome === 'reverted' ? 'Transaction reverted' : undefined
+});
+
+// Polls until the background settlement has caught up
+async function until(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !check(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(check()).toBe(true);
+}
+
+// A live-mode spawner whose chain access is replaced by in-memory balances per derivation index
+async function setup() {
+  process.env.MNEMONIC = MNEMONIC;
+  process.env.STATE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'spawner-'));
+  const spawner = new AgentSpawner('http://127.0.0.1:1');
+  await spawner['store'].init();
+
+  const eth = new Map<number, bigint>([[0, ethers.parseEther('10')]]);
+  const weth = new Map<number, bigint>();
+  const tokens = new Map<number, bigint>();
+  const move = (from: number, to: number, amount: bigint) => {
+    eth.set(from, (eth.get(from) ?? ZERO) - amount);
+    eth.set(to, (eth.get(to) ?? ZERO) + amount);
+  };
+
+  // WETH.withdraw burns the sender's WETH and pays it out as ETH
+  const wethInterface = new ethers.Interface(['function withdraw(uint256 amount)']);
+  mockSubmit.mockImplementation(async (from: string, _description: string, tx: ethers.TransactionRequest) => {
+    const index = [0, 1, 2, 3].find(i => spawner['agentWallets'].derive(i).address === from)!;
+    const [amount] = wethInterface.decodeFunctionData('withdraw', tx.data!);
+    weth.set(index, (weth.get(index) ?? ZERO) - amount);
+    eth.set(index, (eth.get(index) ?? ZERO) + amount);
+    return { hash: '0xunwrap' };
+  });
+  spawner['txTracker'].waitFor = async () => ({ ...tracked('confirmed'), hash: '0xunwrap', fill: null });
+
+  // The second settlement is released by the test, after executeTrade has given up waiting
+  let settle: (result: TrackedTransaction) => void = () => undefined;
+  const waitForSettlement = jest.fn(async (): Promise<TrackedTransaction> => tracked('pending'));
+  waitForSettlement
+    .mockResolvedValueOnce(tracked('pending'))
+    .mockReturnValueOnce(new Promise(resolve => { settle = resolve; }));
+
+  const executor: TradeExecutor = {
+    init: async () => undefined,
+    approve: async () => undefined,
+    executeTrade: async () => swap,
+    executeTradeWithETH: async () => swap,
+    waitForSettlement
+  };
+
+  spawner['executorFor'] = async () => executor;
+  spawner['walletEthBalance'] = async (index: number) => new TokenAmount(eth.get(index) ?? ZERO, 18);
+  spawner['walletWethBalance'] = async (index: number) => new TokenAmount(weth.get(index) ?? ZERO, 18);
+  spawner['walletTokenBalance'] = async (index: number, tokenAddress: string) =>
+    new TokenAmount(tokenAddress === BASE ? tokens.get(index) ?? ZERO : ZERO, 18);
+  spawner['transferBetweenWallets'] = async (fromIndex: number, toIndex: number, _token: string, amount: bigint) => {
+    move(fromIndex, toIndex, amount);
+    return '0xtransfer';
+  };
+  spawner['getTokenPrice'] = async () => ({ spot: '0.001', twap: '0.001' });
+  spawner['tokenMetadata'].get = async (address: string) => ({ address, symbol: 'TOKEN', decimals: 18 });
+
+  // Whole ETH, for comparisons that tolerate float dust from sizing
+  const balance = (index: number) => Number(ethers.formatEther(eth.get(index) ?? ZERO));
+  return { spawner, balance, weth, tokens, settle: (result: TrackedTransaction) => settle(result) };
+}
+
+// Stubs the analysis, judge and strategy stages so a decision cycle goes straight to a buy
+function bullish(spawner: AgentSpawner) {
+  const analysis = {
+    sentiment: 0.5,
+    confidence: 0.9,
+    reasoning: [],
+    marketCondition: 'bullish',
+    suggestedActions: [],
+    tweets: [],
+    totalEngagement: 5000,
+    timestamp: Date.now()
+  } as MarketAnalysis;
+  const evaluation: EvaluationResult = {
+    shouldSpawn: true,
+    confidence: 0.9,
+    reasons: [],
+    recommendedConfig: { capital: 0.1, maxSlippage: 1, stopLoss: 10, targetProfit: 20 }
+  };
+
+  spawner['sentimentAnalyzer'].getMarketAnalysis = async () => analysis;
+  spawner['judge'].evaluateOpportunity = async () => evaluation;
+  spawner['veniceAI'].evaluateStrategy = async (_token, _sentiment, _template, config) =>
+    ({ shouldExecute: true, adjustedConfig: config, reasoning: [] });
+  spawner['calculatePositionSize'] = async () => 0.1;
+  spawner['healthMonitor'].monitorAgent = async () => undefined;
+
+  const spawn = jest.fn(async (config: SpawnedAgent['config'], derivationIndex: number): Promise<SpawnedAgent> => ({
+    id: 'agent-late',
+    address: spawner['agentWallets'].derive(derivationIndex).address,
+    derivationIndex,
+    config,
+    deployedAt: Date.now()
+  }));
+  spawner['agentFactory'].spawn = spawn;
+  return spawn;
+}
+
+describe('AgentSpawner opening trades that settle late', () => {
+  it('spawns the agent once a pending buy fills', async () => {
+    const { spawner, balance, settle } = await setup();
+    const spawn = bullish(spawner);
+
+    const record = await spawner.spawnAgentsForToken('BASE');
+    expect(record.outcome).not.toBe('spawned');
+    expect(spawn).not.toHaveBeenCalled();
+
+    settle(tracked('confirmed'));
+    await until(() => spawn.mock.calls.length > 0);
+    await until(() => spawner['agentAt'](1) !== undefined);
+
+    expect(spawn.mock.calls[0][1]).toBe(1);
+    expect(spawn.mock.calls[0][0].config.tradeTxHash).toBe('0xswap');
+    expect((await spawner.getTradeHistory())[0].status).toBe('completed');
+    expect(spawner['positions'].get('BASE')?.holders).toEqual({
+      [spawner['agentWallets'].derive(1).address.toLowerCase()]: '100.0'
+    });
+    // The funding stays with the new agent
+    expect(balance(0)).toBeCloseTo(9.898, 12);
+  });
+
+  it('returns the funding and spawns nothing once a pending buy fails', async () => {
+    const { spawner, balance, settle } = await setup();
+    const spawn = bullish(spawner);
+
+    await spawner.spawnAgentsForToken('BASE');
+    expect(balance(1)).toBeCloseTo(0.102, 12);
+
+    settle(tracked('reverted'));
+    await until(() => spawner['funder'].totalFunding() === 0);
+
+    // Everything but the gas buffer is back in the treasury, and the wallet no longer counts
+    expect(balance(1)).toBeCloseTo(0.002, 12);
+    expect(balance(0)).toBeCloseTo(9.998, 12);
+    expect(spawn).not.toHaveBeenCalled();
+    expect((await spawner.getTradeHistory())[0].status).toBe('failed');
+  });
+});
+
+afterAll(() => getScheduler().stop());
+
+describe('AgentSpawner termination sweeps', () => {
+  it('returns the proceeds of unwound holdings to the treasury', async () => {
+    const { spawner, balance, weth, tokens } = await setup();
+    const agent: SpawnedAgent = {
+      id: 'agent-killed',
+      address: spawner['agentWallets'].derive(1).address,
+      derivationIndex: 1,
+      config: { template: 'neutral', config: { capital: 0.1, maxSlippage: 1, targetPool: BASE }, funding: 'treasury' },
+      deployedAt: Date.now()
+    };
+    await spawner['funder'].fund({ source: 'treasury', fromIndex: 0, toIndex: 1, purpose: 'test', legs: [await spawner['fundingLeg']('ETH', 0.102)] });
+    tokens.set(1, ethers.parseEther('100'));
+    spawner['agentFactory'].stop = async () => undefined;
+
+    // The unwind sells every token for WETH, which stays in the agent's wallet
+    spawner['executeTrade'] = async (token: string, type: 'buy' | 'sell', amount: string) => {
+      tokens.set(1, ZERO);
+      weth.set(1, ethers.parseEther('0.12'));
+      return { id: 'unwind', timestamp: Date.now(), token, type, amount, price: '0.0012', txHash: '0xsell', status: 'completed' };
+    };
+
+    const result = await spawner['sweepAgent'](agent, 'max-loss');
+
+    expect(result.unwound).toEqual([{ token: 'BASE', amount: '100.0', tradeId: 'unwind' }]);
+    expect(weth.get(1)).toBe(ZERO);
+    expect(balance(1)).toBeCloseTo(0.002, 12);
+    // 10 less 0.102 funded, plus 0.1 of funding and 0.12 of proceeds back
+    expect(balance(0)).toBeCloseTo(10.118, 12);
+    expect(result.recoveredValue).toBeCloseTo(0.22, 12);
+  });
+});
+
+describe('AgentSpawner agent valuation', () => {
+  it('counts WETH from a profitable sell, so health rules see the gain', async () => {
+    const { spawner, weth, tokens } = await setup();
+    const address = spawner['agentWallets'].derive(1).address;
+    const agent: SpawnedAgent = {
+      id: 'agent-trimmed',
+      address,
+      derivationIndex: 1,
+      config: { template: 'neutral', config: { capital: 0.1, maxSlippage: 1, targetPool: BASE }, funding: 'treasury' },
+      deployedAt: Date.now()
+    };
+    const monitor = spawner['healthMonitor'];
+    await monitor.monitorAgent(agent, { maxLoss: 20, maxInactivity: 2, minROI: -50, checkInterval: 60000 });
+
+    // Funded with 0.102 ETH, spent 0.1 on 100 tokens at 0.001
+    await spawner['funder'].fund({ source: 'treasury', fromIndex: 0, toIndex: 1, purpose: 'test', legs: [await spawner['fundingLeg']('ETH', 0.102)] });
+    await spawner['transferBetweenWallets'](1, 0, '', ethers.parseEther('0.1'));
+    tokens.set(1, ethers.parseEther('100'));
+    spawner['positions'].set('BASE', {
+      token: 'BASE', amount: '100.0', entryPrice: '0.001', currentPrice: '0.001', twapPrice: '0.001', pnl: '0',
+      strategy: 'sentiment-based', lastUpdate: Date.now(), tokenAddress: BASE, holders: { [address.toLowerCase()]: '100.0' }
+    });
+    await monitor['_updateMetrics'](agent.id);
+    expect(await spawner['valueAgent'](agent)).toBeCloseTo(0.102, 12);
+
+    // Sold everything at 0.0012; the proceeds arrive as WETH
+    tokens.set(1, ZERO);
+    weth.set(1, ethers.parseEther('0.12'));
+    spawner['positions'].get('BASE')!.holders = {};
+    await monitor['_updateMetrics'](agent.id);
+
+    expect(await spawner['valueAgent'](agent)).toBeCloseTo(0.122, 12);
+    const equity = monitor.getEquityCurve(agent.id).map(sample => sample.value);
+    expect(equity[0]).toBeCloseTo(0.1, 12);
+    expect(equity[1]).toBeCloseTo(0.12, 12);
+
+    const health = monitor['_checkHealth'](monitor['agents'].get(agent.id)!);
+    expect(health.healthy).toBe(true);
+    expect(health.metrics.currentROI).toBeCloseTo(20, 6);
+    expect(health.metrics.maxDrawdown).toBe(0);
+  });
+});
@@ -1,23 +1,37 @@
 import { ethers } from 'ethers';
+import IERC20 from '@openzeppelin/contracts/build/contracts/IERC20.json';
 import { Logger } from 'winston';
 import { createLogger } from '../utils/logger';
 import { TwitterSentimentAnalyzer, MarketAnalysis } from './twitter-sentiment';
 import { VeniceAI } from './venice-ai';
-import { AgentFactory } from '../factory/autonome-factory';
+import { AgentFactory, SpawnedAgent } from '../factory/autonome-factory';
+import { AgentWallets } from '../factory/agent-wallets';
+import { AgentFunder, FundingLeg, FundingLimits, FundingSource, FundingTransfer, SweepResult, TerminationPolicy } from '../factory/agent-funding';
+import { createDeploymentAdapter, DeploymentInfo } from '../runtime/deployment';
+import { TradeRequest, TemplateConfig, TemplateState, getTemplate, templateDefaults, validateTemplateConfig } from '../runtime/templates';
 import { Judge } from '../ai/judge';
-import { UniswapService } from './uniswap-service';
-import { HealthMonitor, HealthConfig } from '../health/killswitch';
-
-// Token addresses on Base
-const TOKEN_ADDRESSES: { [key: string]: string } = {
-  'ETH': '0x4200000000000000000000000000000000000006', // WETH
-  'USDC': '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
-  'BASE': '0xfA980cEd6895AC314E7dE34Ef1bFAE90a5AdD21b',
-  'AERO': '0x940181a94A35A4569E4529A3CDfB74e38FD98631',
-};
-
-// Uniswap V3 Router address on Base
-const UNISWAP_V3_ROUTER = '0x2626664c2603336E57B271c5C0b26F421741e481';
+import { UniswapService, TradeExecutor, SwapResult } from './uniswap-service';
+import { SwapQuote } from './route-finder';
+import { PaperTradingService, PaperTradingConfig } from './paper-trading';
+import { TransactionTracker } from './transaction-tracker';
+import { getTransactionQueue } from './transaction-queue';
+import { TokenMetadataRegistry } from './token-metadata';
+import { TokenAmount } from '../utils/token-amount';
+import { StateRepository, FileStateStore, AgentRecord } from '../store/state-store';
+import { HealthMonitor, HealthConfig, HealthStatus } from '../health/killswitch';
+import { EquitySample } from '../health/equity-curve';
+import { PriceOracle } from './price-oracle';
+import { TokenRegistry, getTokenRegistry } from '../config/token-registry';
+import { RiskEngine, RiskDecision, RiskStatus, OrderIntent, PortfolioSnapshot } from '../risk/risk-engine';
+import { PositionSizer, SizingConfig, createPositionSizer, boundPositionSize } from '../risk/position-sizing';
+import { EvaluationResult } from '../ai/judge';
+import { checkAnalysis, buildSentimentOpportunity, selectTemplate } from '../pipeline/rules';
+import { DecisionLog, DecisionBuilder, DecisionRecord, DecisionStage } from '../pipeline/decision-log';
+import { ExitManager, ExitConfig, ExitReason, ExitSignal } from '../risk/exit-manager';
+import { EventBus, getEventBus } from '../events/event-bus';
+import { Scheduler, getScheduler } from '../scheduler/scheduler';
+
+const WETH_ABI = ['function withdraw(uint256 amount)'];
 
 interface SpawnConfig {
   minSentiment: number;
@@ -25,6 +39,10 @@ interface SpawnConfig {
   maxAgentsPerToken: number;
   minCapital: number;
   maxCapital: number;
+  minConfidence?: number;
+  executionMode?: 'live' | 'paper';
+  sizing?: SizingConfig;
+  monitoringInterval?: number;  // Default ms between decision cycles per token
 }
 
 interface SystemStatus {
@@ -36,22 +54,33 @@ interface SystemStatus {
   totalAgents: number;
   lastAnalysis: number;
   uptime: number;
+  risk: RiskStatus;
 }
 
-interface Position {
+export interface Position {
   token: string;
   amount: string;
   entryPrice: string;
   currentPrice: string;
+  twapPrice: string;
   pnl: string;
   strategy: string;
   lastUpdate: number;
   tokenAddress: string;
+  openedAt?: number;
+  peakPrice?: string;         // Highest oracle price seen while open, for the trailing stop
+  exit?: ExitConfig;          // Overrides the default exit rules for this position
+  holders?: Record<string, string>;  // Wallet address -> token amount held there
 }
 
 interface AgentStatus {
   id: string;
   token: string;
+  address: string;
+  derivationIndex?: number;
+  deployment?: DeploymentInfo;
+  funded?: number;              // Net ETH value funded into the agent's wallet
+  health?: HealthStatus;        // Latest health check, including equity, drawdown and volatility
   strategy: string;
   status: 'active' | 'terminated';
   spawnTime: number;
@@ -61,7 +90,8 @@ interface AgentStatus {
   };
 }
 
-interface Trade {
+export interface Trade {
+  id: string;
   timestamp: number;
   token: string;
   type: 'buy' | 'sell';
@@ -69,6 +99,29 @@ interface Trade {
   price: string;
   txHash: string;
   status: 'completed' | 'pending' | 'failed';
+  template?: string;          // Agent template the order was placed for
+  wallet?: {                  // Wallet that signed the swap; index 0 is the treasury
+    address: string;
+    derivationIndex: number;
+  };
+  quote?: {
+    expectedAmountOut: string;  // Raw token units
+    minAmountOut: string;       // Raw token units
+    priceImpact: number;
+    route: {
+      tokens: string[];
+      fees: number[];
+    };
+  };
+  fill?: {
+    amountIn: string;
+    amountOut: string;
+    gasUsed: string;
+  };
+  gasCost?: string;           // ETH paid for gas
+  realizedPnl?: string;       // ETH, set on completed sells
+  exitReason?: ExitReason;    // Set when the exit manager closed the position
+  failureReason?: string;
 }
 
 export class AgentSpawner {
@@ -77,18 +130,38 @@ export class AgentSpawner {
   private veniceAI: VeniceAI;
   private agentFactory: AgentFactory;
   private judge: Judge;
-  private uniswap: UniswapService;
+  private uniswap: TradeExecutor;
   private activeAgents: Map<string, Set<string>>;  // token -> agent IDs
   private startTime: number;
   private tradeHistory: Trade[];
   private wallet: ethers.HDNodeWallet;
   private provider: ethers.JsonRpcProvider;
-  private monitoredTokens: string[];
+  private tokenRegistry: TokenRegistry;
+  private riskEngine: RiskEngine;
+  private positionSizer: PositionSizer;
+  private exitManager: ExitManager;
+  private decisions: DecisionLog;
   private positions: Map<string, Position>;
   private healthMonitor: HealthMonitor;
+  private priceOracle: PriceOracle;
+  private tokenMetadata: TokenMetadataRegistry;
+  private store: StateRepository;
+  private agentRecords: Map<string, AgentRecord>;
+  private events: EventBus;
+  private scheduler: Scheduler;
+  private agentWallets: AgentWallets;
+  private executors: Map<number, TradeExecutor>;  // Derivation index -> executor signing for that wallet
+  private paperConfig: PaperTradingConfig;
+  private txTracker: TransactionTracker;
+  private gasReserve: number;
+  private funder: AgentFunder;
+  private fundingSource: FundingSource;
+  private terminationPolicy: TerminationPolicy;
+  private pausedAgents: Map<string, string>;      // Agent id -> why its health rules paused it
+  private tokenLocks: Map<string, Promise<unknown>>;  // Token -> tail of the work queued on its position
 
   constructor(
-    rpcUrl: string,
+    private rpcUrl: string,
     private config: SpawnConfig = {
       minSentiment: 0.3,
       minEngagement: 1000,
@@ -100,43 +173,330 @@ export class AgentSpawner {
     this.logger = createLogger('AgentSpawner');
     this.sentimentAnalyzer = new TwitterSentimentAnalyzer();
     this.veniceAI = new VeniceAI();
-    this.agentFactory = new AgentFactory(rpcUrl);
     this.judge = new Judge();
 
     this.startTime = Date.now();
     this.tradeHistory = [];
     this.provider = new ethers.JsonRpcProvider(rpcUrl);
     console.log("MNEMONIC",process.env.MNEMONIC?.toString());
-    this.wallet = ethers.Wallet.fromPhrase(process.env.MNEMONIC || '') as ethers.HDNodeWallet;
-    this.uniswap = new UniswapService(rpcUrl, this.wallet.privateKey);
+    this.agentWallets = new AgentWallets(process.env.MNEMONIC || '', this.provider);
+    this.wallet = this.agentWallets.treasury();
+    this.agentFactory = new AgentFactory(
+      rpcUrl,
+      this.agentWallets,
+      createDeploymentAdapter(process.env.AGENT_RUNTIME || 'local')
+    );
+    this.paperConfig = {
+      initialEthBalance: process.env.PAPER_ETH_BALANCE || '10',
+      slippage: Number(process.env.PAPER_SLIPPAGE) || 0.001,
+      feeRate: Number(process.env.PAPER_FEE_RATE) || 0.003,
+      gasUnits: Number(process.env.PAPER_GAS_UNITS) || 150000,
+      gasPriceGwei: Number(process.env.PAPER_GAS_PRICE_GWEI) || 0.01
+    };
+    this.uniswap = this.isPaperTrading()
+      ? new PaperTradingService(rpcUrl, this.paperConfig)
+      : new UniswapService(rpcUrl, this.wallet.privateKey);
+    this.executors = new Map([[0, this.uniswap]]);
+    this.txTracker = new TransactionTracker(
+      this.provider,
+      Number(process.env.TX_CONFIRMATIONS) || 1,
+      Number(process.env.TX_CONFIRMATION_TIMEOUT) || 5 * 60 * 1000
+    );
+    this.gasReserve = Number(process.env.AGENT_GAS_RESERVE) || 0.002;
     this.activeAgents = new Map();
-    this.monitoredTokens = ['ETH', 'BTC', 'BASE', 'USDC', 'AERO'];
+    this.positionSizer = createPositionSizer(this.config.sizing || {
+      strategy: 'fixed-fraction',
+      fraction: 0.1,
+      kellyMultiplier: 0.5,
+      targetVolatility: 0.5,
+      payoffRatio: 2
+    });
+    this.exitManager = new ExitManager({
+      stopLoss: process.env.EXIT_STOP_LOSS ? Number(process.env.EXIT_STOP_LOSS) : undefined,
+      trailingStop: process.env.EXIT_TRAILING_STOP ? Number(process.env.EXIT_TRAILING_STOP) : undefined,
+      takeProfit: process.env.EXIT_TAKE_PROFIT ? Number(process.env.EXIT_TAKE_PROFIT) : undefined,
+      maxHoldingTime: process.env.EXIT_MAX_HOLDING_HOURS
+        ? Number(process.env.EXIT_MAX_HOLDING_HOURS) * 60 * 60 * 1000
+        : undefined
+    });
+    this.riskEngine = new RiskEngine({
+      maxTotalExposure: Number(process.env.RISK_MAX_TOTAL_EXPOSURE) || 5,
+      tokenExposureCaps: {
+        low: Number(process.env.RISK_TOKEN_CAP_LOW) || 2,
+        medium: Number(process.env.RISK_TOKEN_CAP_MEDIUM) || 1,
+        high: Number(process.env.RISK_TOKEN_CAP_HIGH) || 0.5
+      },
+      maxTemplateExposure: Number(process.env.RISK_MAX_TEMPLATE_EXPOSURE) || 2,
+      dailyLossLimit: Number(process.env.RISK_DAILY_LOSS_LIMIT) || 0.5,
+      maxTradesPerHour: Number(process.env.RISK_MAX_TRADES_PER_HOUR) || 10,
+      minEthReserve: Number(process.env.RISK_MIN_ETH_RESERVE) || 0.01
+    });
+    this.tokenRegistry = getTokenRegistry(
+      this.provider,
+      process.env.TOKEN_CONFIG_PATH || './config/tokens.json'
+    );
     this.positions = new Map();
-    this.healthMonitor = new HealthMonitor(rpcUrl);
+    this.store = new FileStateStore(process.env.STATE_DIR || './data');
+    this.agentRecords = new Map();
+    this.decisions = new DecisionLog(this.store);
+    this.funder = new AgentFunder(
+      this.agentWallets,
+      (fromIndex, toIndex, tokenAddress, amount) => this.transferBetweenWallets(fromIndex, toIndex, tokenAddress, amount),
+      this.store,
+      {
+        maxPerAgent: Number(process.env.AGENT_MAX_FUNDING) || 1,
+        maxTotal: Number(process.env.AGENT_MAX_TOTAL_FUNDING) || 5
+      }
+    );
+    // 'parent' funds a new agent from an agent already trading the token when one has ETH to spare
+    this.fundingSource = process.env.AGENT_FUNDING_SOURCE === 'parent' ? 'parent' : 'treasury';
+    this.terminationPolicy = process.env.AGENT_TERMINATION_POLICY === 'hold' ? 'hold' : 'unwind';
+    this.pausedAgents = new Map();
+    this.tokenLocks = new Map();
+    this.events = getEventBus();
+    this.scheduler = getScheduler();
+    this.healthMonitor = new HealthMonitor(
+      rpcUrl,
+      this.store,
+      this.events,
+      this.scheduler,
+      agent => this.valueAgent(agent),
+      (agent, reason) => this.sweepAgent(agent, reason),
+      agent => this.funder.netFunding(agent.derivationIndex)
+    );
+    this.tokenMetadata = new TokenMetadataRegistry(this.provider);
+    this.priceOracle = new PriceOracle(
+      this.provider,
+      Number(process.env.TWAP_WINDOW_SECONDS) || 1800
+    );
+
+    this.events.on('AgentKilled', ({ agentId, reason }) => this.untrackAgent(agentId, reason));
+    this.events.on('AgentPaused', ({ agentId, reason }) => this.setPaused(agentId, reason));
+    this.events.on('AgentResumed', ({ agentId }) => this.setPaused(agentId, null));
+    this.events.on('AgentTradeRequested', ({ agentId, requestId, request }) =>
+      this.handleAgentTrade(agentId, requestId, request)
+    );
   }
 
   async init() {
     await this.sentimentAnalyzer.init();
     await this.veniceAI.init();
     await this.uniswap.init();
-    this.logger.info('Agent spawner initialized with Venice AI and Uniswap');
+    await this.tokenRegistry.validate();
+    await this.restoreState();
+    this.logger.info('Agent spawner initialized with Venice AI and Uniswap', {
+      executionMode: this.isPaperTrading() ? 'paper' : 'live'
+    });
   }
 
-  private async evaluateOpportunity(token: string, analysis: MarketAnalysis) {
-    const opportunity = {
-      type: 'sentiment' as const,
-      token,
-      risk: Math.max(1, 5 - analysis.sentiment * 5), // Higher sentiment = lower risk
-      confidence: analysis.confidence,
-      source: 'venice-ai',
-      timestamp: Date.now(),
-      metadata: {
-        sentiment: analysis.sentiment,
-        marketCondition: analysis.marketCondition,
-        reasoning: analysis.reasoning,
-        suggestedActions: analysis.suggestedActions
+  // Reloads positions, trades and live agents saved before the last restart
+  private async restoreState() {
+    const state = await this.store.init();
+
+    for (const position of state.positions) {
+      this.positions.set(position.token, position);
+    }
+    this.tradeHistory = state.trades.slice(-100);
+    this.riskEngine.restore(state.trades);
+    this.decisions.restore(state.decisions);
+
+    // Never hand out a derivation index again, even one whose agent was terminated or never spawned
+    for (const trade of state.trades) {
+      if (trade.wallet) {
+        this.agentWallets.reserve(trade.wallet.derivationIndex);
       }
-    };
+    }
+
+    // Funded wallets without a live agent (terminated, or whose opening trade failed) no longer
+    // count against the aggregate cap
+    const live = new Set(state.agents
+      .filter(record => record.status === 'active')
+      .map(record => record.agent.derivationIndex));
+    const funded = new Set(state.funding.flatMap(transfer => [transfer.fromIndex, transfer.toIndex]));
+    funded.forEach(index => this.agentWallets.reserve(index));
+    this.funder.restore(state.funding, Array.from(funded).filter(index => index !== 0 && !live.has(index)));
+
+    const health = new Map(state.health.map(record => [record.agentId, record]));
+    const equity = new Map<string, EquitySample[]>();
+    for (const { agentId, timestamp, value } of state.equity) {
+      if (!equity.has(agentId)) {
+        equity.set(agentId, []);
+      }
+      equity.get(agentId)!.push({ timestamp, value });
+    }
+    for (const record of state.agents) {
+      if (typeof record.agent.derivationIndex === 'number') {
+        this.agentWallets.reserve(record.agent.derivationIndex);
+      }
+      if (record.status !== 'active') continue;
+
+      this.agentRecords.set(record.agent.id, record);
+      if (!this.activeAgents.has(record.token)) {
+        this.activeAgents.set(record.token, new Set());
+      }
+      this.activeAgents.get(record.token)!.add(record.agent.id);
+
+      if (record.healthConfig) {
+        await this.healthMonitor.monitorAgent(
+          record.agent,
+          record.healthConfig,
+          health.get(record.agent.id),
+          equity.get(record.agent.id)
+        );
+      }
+      await this.redeployAgent(record);
+    }
+
+    this.logger.info('Restored persisted state', {
+      positions: this.positions.size,
+      trades: this.tradeHistory.length,
+      activeAgents: this.agentRecords.size
+    });
+  }
+
+  private async trackAgent(record: AgentRecord) {
+    if (!this.activeAgents.has(record.token)) {
+      this.activeAgents.set(record.token, new Set());
+    }
+    this.activeAgents.get(record.token)!.add(record.agent.id);
+    this.agentRecords.set(record.agent.id, record);
+    await this.store.saveAgent(record);
+  }
+
+  // The health monitor has already persisted the termination
+  private async untrackAgent(agentId: string, reason: string) {
+    const record = this.agentRecords.get(agentId);
+    if (!record) return;
+
+    await this.agentFactory.stop(record.agent);
+    this.activeAgents.get(record.token)?.delete(agentId);
+    if (this.activeAgents.get(record.token)?.size === 0) {
+      this.activeAgents.delete(record.token);
+    }
+    this.agentRecords.delete(agentId);
+    this.pausedAgents.delete(agentId);
+    this.funder.release(record.agent.derivationIndex);
+    this.logger.info('Agent untracked', { agentId, reason });
+  }
+
+  private async setPaused(agentId: string, reason: string | null) {
+    const record = this.agentRecords.get(agentId);
+    if (!record) return;
+
+    if (reason) {
+      this.pausedAgents.set(agentId, reason);
+      await this.agentFactory.send(record.agent, { type: 'pause', reason });
+    } else {
+      this.pausedAgents.delete(agentId);
+      await this.agentFactory.send(record.agent, { type: 'resume' });
+    }
+  }
+
+  // Workers do not survive a restart; pick each agent's loop up from its share of the position
+  private async redeployAgent(record: AgentRecord) {
+    if (typeof record.agent.derivationIndex !== 'number') {
+      this.logger.warn('Agent has no derivation index, not redeploying', { agentId: record.agent.id });
+      return;
+    }
+
+    const tokenAddress = this.tokenRegistry.getAddress(record.token);
+    if (!tokenAddress) {
+      this.logger.warn('Agent token is no longer registered, not redeploying', { agentId: record.agent.id, token: record.token });
+      return;
+    }
+
+    const position = this.positions.get(record.token);
+    const entryPrice = Number(position?.entryPrice || 0);
+    try {
+      await this.agentFactory.deploy(record.agent, {
+        token: record.token,
+        tokenAddress,
+        state: {
+          entryPrice,
+          lastBuyPrice: entryPrice,
+          holding: Number(position?.holders?.[record.agent.address.toLowerCase()] || 0),
+          adds: 0,
+          trimmed: false,
+          pending: false
+        }
+      });
+      await this.store.saveAgent(record);
+    } catch (error) {
+      this.logger.error('Error redeploying agent', { error, agentId: record.agent.id });
+    }
+  }
+
+  // Runs a trade an agent's loop asked for from that agent's wallet and reports the result back
+  private async handleAgentTrade(agentId: string, requestId: string, request: TradeRequest) {
+    const record = this.agentRecords.get(agentId);
+    if (!record) {
+      this.logger.warn('Trade request from an untracked agent', { agentId, requestId });
+      return;
+    }
+
+    // A request already in flight when the agent was paused
+    const paused = this.pausedAgents.get(agentId);
+    if (paused) {
+      await this.agentFactory.send(record.agent, { type: 'trade-result', requestId, status: 'rejected', reason: `Agent paused: ${paused}` });
+      return;
+    }
+
+    const trade = await this.withTokenLock(record.token, () => this.executeTrade(
+      record.token,
+      request.side,
+      request.amount,
+      record.agent.config.template,
+      [request.reason],
+      undefined,
+      undefined,
+      record.agent.derivationIndex
+    ));
+
+    await this.agentFactory.send(record.agent, trade
+      ? {
+          type: 'trade-result',
+          requestId,
+          status: 'completed',
+          amountIn: trade.fill?.amountIn ?? trade.amount,
+          amountOut: trade.fill?.amountOut,
+          price: trade.price
+        }
+      : { type: 'trade-result', requestId, status: 'rejected', reason: 'Rejected by risk limits or failed to execute' }
+    );
+  }
+
+  // Decision cycles, exit checks, agent trades and sweeps all sell from and rewrite the same
+  // position. They run on separate jobs, so work on one token is queued and run one at a time.
+  private withTokenLock<T>(token: string, task: () => Promise<T>): Promise<T> {
+    const key = token.toUpperCase();
+    const run = (this.tokenLocks.get(key) || Promise.resolve()).then(task, task);
+    const tail = run.catch(() => undefined);
+    this.tokenLocks.set(key, tail);
+    tail.then(() => {
+      if (this.tokenLocks.get(key) === tail) {
+        this.tokenLocks.delete(key);
+      }
+    });
+    return run;
+  }
+
+  // Looks up an enabled token and makes sure prices come from its configured pool. The quote asset
+  // never resolves, since there is nothing to swap it for. Disabled tokens can still be resolved for selling so open positions can be unwound.
+  private resolveToken(token: string, allowDisabled: boolean = false): string | null {
+    const config = this.tokenRegistry.get(token);
+    if (!config || this.tokenRegistry.isQuote(config.symbol) || (!config.enabled && !allowDisabled)) {
+      return null;
+    }
+    this.priceOracle.setPreferredPool(config.address, config.quotePool);
+    return config.address;
+  }
+
+  isPaperTrading(): boolean {
+    return (this.config.executionMode || process.env.EXECUTION_MODE) === 'paper';
+  }
+
+  private async evaluateOpportunity(token: string, analysis: MarketAnalysis) {
+    const opportunity = buildSentimentOpportunity(token, analysis, Date.now());
 
     return await this.judge.evaluateOpportunity({
       strategy: 'sentiment',
@@ -145,217 +505,744 @@ export class AgentSpawner {
     });
   }
 
+  private async getEthBalance(): Promise<number> {
+    return (await this.walletEthBalance(0)).toNumber();
+  }
+
+  private async walletEthBalance(index: number): Promise<TokenAmount> {
+    const executor = await this.executorFor(index);
+    if (executor instanceof PaperTradingService) {
+      return new TokenAmount(executor.getBalance(this.tokenRegistry.getAddress('ETH')!), 18);
+    }
+    return new TokenAmount(await this.provider.getBalance(this.agentWallets.derive(index).address), 18);
+  }
+
+  // Sells pay out WETH. Paper trading books ETH and WETH as one balance, which walletEthBalance
+  // already reports, so there is no separate WETH there.
+  private async walletWethBalance(index: number): Promise<TokenAmount> {
+    const executor = await this.executorFor(index);
+    if (executor instanceof PaperTradingService) {
+      return TokenAmount.zero(18);
+    }
+    const weth = new ethers.Contract(this.tokenRegistry.getAddress('ETH')!, IERC20.abi, this.provider);
+    return new TokenAmount(await weth.balanceOf(this.agentWallets.derive(index).address), 18);
+  }
+
+  // Turns a wallet's WETH back into ETH through its own nonce queue, so it can be swept natively
+  private async unwrapWeth(index: number): Promise<TokenAmount> {
+    const balance = await this.walletWethBalance(index);
+    if (balance.isZero()) return balance;
+
+    const tx = await getTransactionQueue(this.agentWallets.derive(index)).submit(
+      `Unwrap WETH in agent wallet ${index}`,
+      {
+        to: this.tokenRegistry.getAddress('ETH')!,
+        data: new ethers.Interface(WETH_ABI).encodeFunctionData('withdraw', [balance.raw])
+      }
+    );
+    const tracked = await this.txTracker.waitFor(tx);
+    if (tracked.outcome !== 'confirmed') {
+      throw new Error(`Unwrapping WETH in wallet ${index} ${tracked.outcome}${tracked.reason ? `: ${tracked.reason}` : ''}`);
+    }
+    return balance;
+  }
+
+  // Index 0 signs with the treasury; every agent wallet gets its own executor and nonce queue
+  private async executorFor(index: number): Promise<TradeExecutor> {
+    let executor = this.executors.get(index);
+    if (!executor) {
+      executor = this.isPaperTrading()
+        ? new PaperTradingService(this.rpcUrl, { ...this.paperConfig, initialEthBalance: '0' })
+        : new UniswapService(this.rpcUrl, this.agentWallets.derive(index).privateKey);
+      await executor.init();
+      this.executors.set(index, executor);
+    }
+    return executor;
+  }
+
+  // Tops an agent wallet up until it holds `required` ETH, from the treasury unless a parent wallet
+  // is given; resolves once the transfer is confirmed
+  private async fundAgentWallet(
+    index: number,
+    required: number,
+    purpose: string,
+    fromIndex: number = 0
+  ): Promise<FundingTransfer[]> {
+    const target = TokenAmount.parse(required, 18);
+    const balance = await this.walletEthBalance(index);
+    if (balance.gte(target)) return [];
+
+    const shortfall = target.sub(balance);
+    return this.funder.fund({
+      source: fromIndex === 0 ? 'treasury' : 'parent',
+      fromIndex,
+      toIndex: index,
+      agentId: this.agentAt(index)?.agent.id,
+      purpose,
+      legs: [await this.fundingLeg('ETH', shortfall.toNumber())]
+    });
+  }
+
+  private async fundingLeg(symbol: string, amount: number | TokenAmount): Promise<FundingLeg> {
+    const tokenAddress = this.tokenRegistry.getAddress(symbol);
+    if (!tokenAddress) {
+      throw new Error(`Token ${symbol} is not registered`);
+    }
+    if (symbol === 'ETH') {
+      const parsed = amount instanceof TokenAmount ? amount : TokenAmount.parse(amount, 18);
+      return { token: symbol, tokenAddress, amount: parsed.format(), raw: parsed.raw, value: parsed.toNumber() };
+    }
+    const parsed = amount instanceof TokenAmount ? amount : await this.tokenMetadata.parse(tokenAddress, amount);
+    const { spot } = await this.getTokenPrice(tokenAddress);
+    return { token: symbol, tokenAddress, amount: parsed.format(), raw: parsed.raw, value: parsed.toNumber() * Number(spot) };
+  }
+
+  private async walletTokenBalance(index: number, tokenAddress: string): Promise<TokenAmount> {
+    const executor = await this.executorFor(index);
+    if (executor instanceof PaperTradingService) {
+      return this.tokenMetadata.fromRaw(tokenAddress, executor.getBalance(tokenAddress));
+    }
+    const contract = new ethers.Contract(tokenAddress, IERC20.abi, this.provider);
+    return this.tokenMetadata.fromRaw(tokenAddress, await contract.balanceOf(this.agentWallets.derive(index).address));
+  }
+
+  // Stops a killed agent, then unwinds its token holdings to ETH (or keeps them, per policy) and
+  // returns everything but a gas buffer to the treasury. Sale proceeds arrive as WETH and are
+  // unwrapped first. Any failure throws so the kill is retried.
+  private async sweepAgent(agent: SpawnedAgent, reason: string): Promise<SweepResult> {
+    const index = agent.derivationIndex;
+    const tokens = Object.entries(this.getTokenAddresses()).filter(([symbol]) => symbol !== 'ETH');
+    await this.agentFactory.stop(agent);
+
+    const unwound: SweepResult['unwound'] = [];
+    if (this.terminationPolicy === 'unwind') {
+      for (const [symbol, tokenAddress] of tokens) {
+        const balance = await this.walletTokenBalance(index, tokenAddress);
+        if (balance.isZero()) continue;
+
+        const trade = await this.withTokenLock(symbol, () => this.executeTrade(
+          symbol,
+          'sell',
+          balance.format(),
+          agent.config.template,
+          [`Unwinding terminated agent ${agent.id}: ${reason}`],
+          undefined,
+          undefined,
+          index,
+          0,
+          true
+        ));
+        if (!trade) {
+          throw new Error(`Could not unwind ${symbol} held by agent ${agent.id}`);
+        }
+        unwound.push({ token: symbol, amount: balance.format(), tradeId: trade.id });
+      }
+    }
+
+    // Tokens first, while the wallet still has ETH for their gas
+    const legs: FundingLeg[] = [];
+    for (const [symbol, tokenAddress] of tokens) {
+      const balance = await this.walletTokenBalance(index, tokenAddress);
+      if (!balance.isZero()) {
+        legs.push(await this.fundingLeg(symbol, balance));
+      }
+    }
+    const transfers = await this.funder.recover(index, agent.id, legs);
+    for (const transfer of transfers) {
+      await this.withTokenLock(transfer.token, () =>
+        this.moveHolding(transfer.token, agent.address, this.wallet.address, transfer.amount)
+      );
+    }
+
+    const unwrapped = await this.unwrapWeth(index);
+    if (!unwrapped.isZero()) {
+      this.logger.info('Unwrapped WETH before sweeping', { agentId: agent.id, amount: unwrapped.format() });
+    }
+
+    const buffer = TokenAmount.parse(this.gasReserve, 18);
+    const eth = await this.walletEthBalance(index);
+    if (buffer.lt(eth)) {
+      transfers.push(...await this.funder.recover(index, agent.id, [await this.fundingLeg('ETH', eth.sub(buffer))]));
+    }
+
+    const recovered: Record<string, string> = {};
+    for (const transfer of transfers) {
+      recovered[transfer.token] = transfer.amount;
+    }
+    return {
+      policy: this.terminationPolicy,
+      unwound,
+      transfers,
+      recovered,
+      recoveredValue: transfers.reduce((sum, transfer) => sum + transfer.value, 0),
+      leftForGas: (await this.walletEthBalance(index)).format(),
+      completedAt: Date.now()
+    };
+  }
+
+  // Keeps position holders in step when tokens change wallets outside a swap
+  private async moveHolding(token: string, from: string, to: string, amount: string) {
+    const position = this.positions.get(token);
+    if (!position?.holders) return;
+
+    const holders = position.holders;
+    const [source, target] = [from.toLowerCase(), to.toLowerCase()];
+    const held = await this.tokenMetadata.parse(position.tokenAddress, holders[source] || '0');
+    const transferred = await this.tokenMetadata.parse(position.tokenAddress, amount);
+    const moved = transferred.gte(held) ? held : transferred;
+
+    if (moved.gte(held)) {
+      delete holders[source];
+    } else {
+      holders[source] = held.sub(moved).format();
+    }
+    const received = await this.tokenMetadata.parse(position.tokenAddress, holders[target] || '0');
+    holders[target] = received.add(moved).format();
+    await this.store.savePosition(position);
+  }
+
+  // Moves ETH or an ERC20 between two derived wallets through the sender's nonce queue
+  private async transferBetweenWallets(fromIndex: number, toIndex: number, tokenAddress: string, amount: bigint): Promise<string> {
+    const from = await this.executorFor(fromIndex);
+    const to = await this.executorFor(toIndex);
+    if (from instanceof PaperTradingService && to instanceof PaperTradingService) {
+      return from.transfer(to, tokenAddress, amount);
+    }
+
+    const recipient = this.agentWallets.derive(toIndex).address;
+    const isEth = tokenAddress.toLowerCase() === this.tokenRegistry.getAddress('ETH')!.toLowerCase();
+    const tx = await getTransactionQueue(this.agentWallets.derive(fromIndex)).submit(
+      `${toIndex === 0 ? 'Sweep' : 'Fund'} agent wallet ${toIndex === 0 ? fromIndex : toIndex}`,
+      isEth
+        ? { to: recipient, value: amount }
+        : { to: tokenAddress, data: new ethers.Interface(IERC20.abi).encodeFunctionData('transfer', [recipient, amount]) }
+    );
+    const tracked = await this.txTracker.waitFor(tx);
+    if (tracked.outcome !== 'confirmed') {
+      throw new Error(`Transfer from wallet ${fromIndex} to ${toIndex} ${tracked.outcome}${tracked.reason ? `: ${tracked.reason}` : ''}`);
+    }
+    return tracked.hash;
+  }
+
+  // An agent already trading the token with enough spare ETH to fund a new one, if any
+  private async selectParent(token: string, required: number): Promise<AgentRecord | null> {
+    let parent: AgentRecord | null = null;
+    let bestSpare = required;
+    for (const agentId of Array.from(this.activeAgents.get(token) || [])) {
+      const record = this.agentRecords.get(agentId);
+      if (!record) continue;
+      const spare = (await this.walletEthBalance(record.agent.derivationIndex)).toNumber() - this.gasReserve;
+      if (spare >= bestSpare) {
+        parent = record;
+        bestSpare = spare;
+      }
+    }
+    return parent;
+  }
+
+  private agentAt(index: number): AgentRecord | undefined {
+    return Array.from(this.agentRecords.values()).find(record => record.agent.derivationIndex === index);
+  }
+
+  // ETH and WETH (what sells pay out) in the agent's wallet plus its share of open positions at
+  // spot, for health ROI
+  private async valueAgent(agent: SpawnedAgent): Promise<number> {
+    const eth = await this.walletEthBalance(agent.derivationIndex);
+    let value = eth.add(await this.walletWethBalance(agent.derivationIndex)).toNumber();
+    for (const position of this.positions.values()) {
+      const held = Number(position.holders?.[agent.address.toLowerCase()] || 0);
+      if (held > 0) {
+        value += held * Number((await this.getTokenPrice(position.tokenAddress)).spot);
+      }
+    }
+    return value;
+  }
+
+  private async checkRisk(
+    token: string,
+    template: string,
+    type: 'buy' | 'sell',
+    amount: string,
+    reducing: boolean = false
+  ): Promise<RiskDecision & { order: OrderIntent; portfolio: PortfolioSnapshot }> {
+    const config = this.tokenRegistry.get(token)!;
+
+    const exposures: Record<string, number> = {};
+    for (const position of await this.getActivePositions()) {
+      exposures[position.token] = Number(position.amount) * Number(position.currentPrice);
+    }
+
+    // Buys are sized in ETH, sells in tokens
+    const value = type === 'buy'
+      ? Number(amount)
+      : Number(amount) * Number((await this.getTokenPrice(config.address)).spot);
+
+    const order: OrderIntent = { token, riskTier: config.riskTier, template, type, value, reducing };
+    const portfolio: PortfolioSnapshot = { ethBalance: await this.getEthBalance(), exposures };
+    return { ...this.riskEngine.check(order, portfolio), order, portfolio };
+  }
+
   private async executeTrade(
     token: string,
-    sentiment: number,
+    type: 'buy' | 'sell',
     amount: string,
-    analysis: MarketAnalysis
+    template: string,
+    reasoning: string[],
+    exitReason?: ExitReason,
+    decision?: DecisionBuilder,
+    walletIndex: number = 0,
+    fundFrom: number = 0,
+    reducing: boolean = exitReason !== undefined, // Exits and unwinds are exempt from rate and reserve limits
+    maxSlippage: number = this.maxSlippageFor(walletIndex, template),  // Percent
+    onLateSettlement?: (trade: Trade) => Promise<void>  // For a trade still pending when this returns
   ) {
+    let funded: FundingTransfer[] = [];
     try {
-      if (!TOKEN_ADDRESSES[token]) {
-        this.logger.warn('Token address not found', { token });
+      const tokenAddress = this.resolveToken(token, type === 'sell');
+      const ethAddress = this.tokenRegistry.getAddress('ETH');
+      if (!tokenAddress || !ethAddress) {
+        this.logger.warn('Token not registered or disabled', { token });
+        decision?.reject('execution', 'Token not registered or disabled');
         return null;
       }
 
-      const deadline = Math.floor(Date.now() / 1000) + 60 * 20; // 20 minutes
-      const slippage = 0.005; // 0.5%
+      const risk = await this.checkRisk(token, template, type, amount, reducing);
+      if (!risk.approved) {
+        decision?.reject('risk', risk.reason!, { ...risk });
+        return null;
+      }
+      decision?.pass('risk', { ...risk });
+
+      // Agent wallets need the buy amount plus gas; sells only need gas. The swap waits for the
+      // funding transfer to confirm.
+      const executor = await this.executorFor(walletIndex);
+      if (walletIndex !== 0) {
+        const required = (type === 'buy' ? Number(amount) : 0) + this.gasReserve;
+        const shortfall = Math.max(0, required - (await this.walletEthBalance(walletIndex)).toNumber());
+        const violation = this.funder.check(walletIndex, shortfall);
+        if (violation) {
+          this.logger.warn('Funding cap reached', { token, derivationIndex: walletIndex, violation });
+          decision?.reject('funding', violation, { derivationIndex: walletIndex, shortfall });
+          return null;
+        }
 
-      // If sentiment is positive, buy token with ETH
-      if (sentiment > 0) {
-        this.logger.info('Executing buy order based on positive sentiment', {
-          token,
-          sentiment,
-          amount,
-          reasoning: analysis.reasoning
+        funded = await this.fundAgentWallet(walletIndex, required, `${type} ${token}`, fundFrom);
+        decision?.pass('funding', {
+          derivationIndex: walletIndex,
+          fromIndex: fundFrom,
+          transfers: funded.map(transfer => ({
+            id: transfer.id,
+            source: transfer.source,
+            token: transfer.token,
+            amount: transfer.amount,
+            txHash: transfer.txHash
+          }))
         });
+      }
+      const address = this.agentWallets.derive(walletIndex).address;
 
-        const tx = await this.uniswap.executeTradeWithETH(
-          TOKEN_ADDRESSES[token],
-          amount,
-          slippage,
-          deadline
-        );
-
-        if (tx) {
-          const trade = {
-            timestamp: Date.now(),
-            token,
-            type: 'buy' as const,
-            amount,
-            price: '0.0', // Will be updated by position tracking
-            txHash: tx.hash,
-            status: 'completed' as const
-          };
-
-          await this._recordTrade(trade);
+      const deadline = Math.floor(Date.now() / 1000) + 60 * 20; // 20 minutes
+      const slippage = maxSlippage / 100;
 
-          // Update health monitor
-          const agentIds = this.activeAgents.get(token) || new Set();
-          for (const agentId of agentIds) {
-            await this.healthMonitor.recordTrade(agentId, true, amount);
-          }
-        }
+      this.logger.info(type === 'buy' ? 'Executing buy order' : 'Executing sell order', {
+        token,
+        amount,
+        reasoning,
+        exitReason,
+        maxSlippage,
+        wallet: address
+      });
 
-        return tx;
-      }
-      // If sentiment is negative, sell token for ETH
-      else if (sentiment < 0) {
-        this.logger.info('Executing sell order based on negative sentiment', {
-          token,
-          sentiment,
-          amount,
-          reasoning: analysis.reasoning
-        });
+      // Buys spend ETH on the token, sells swap the token back to ETH
+      const result = type === 'buy'
+        ? await executor.executeTradeWithETH(tokenAddress, amount, slippage, deadline)
+        : await executor.executeTrade({
+            tokenIn: tokenAddress,
+            tokenOut: ethAddress,
+            amountIn: amount,
+            slippage,
+            deadline
+          });
 
-        const tx = await this.uniswap.executeTrade({
-          tokenIn: TOKEN_ADDRESSES[token],
-          tokenOut: TOKEN_ADDRESSES['ETH'],
-          amountIn: amount,
-          slippage,
-          deadline
-        });
+      const trade: Trade = {
+        id: `${token}-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+        timestamp: Date.now(),
+        token,
+        type,
+        amount,
+        price: '0.0', // Set from the actual fill once confirmed
+        txHash: result.hash,
+        status: 'pending',
+        template,
+        wallet: { address, derivationIndex: walletIndex },
+        exitReason,
+        quote: this.summarizeQuote(result.quote)
+      };
 
-        if (tx) {
-          await this._recordTrade({
-            timestamp: Date.now(),
-            token,
-            type: 'sell',
-            amount,
-            price: '0.0', // Implement price tracking
-            txHash: tx.hash,
-            status: 'completed'
-          });
+      await this._recordTrade(trade);
+      await this._settleTrade(trade, result, executor, async settled => {
+        if (settled.status === 'failed') {
+          await this.returnUnusedFunding(walletIndex, fundFrom, funded, token);
         }
+        await onLateSettlement?.(settled);
+      });
 
-        return tx;
+      const executionData = {
+        tradeId: trade.id,
+        txHash: trade.txHash,
+        status: trade.status,
+        amount: trade.amount,
+        price: trade.price,
+        quote: trade.quote,
+        fill: trade.fill,
+        gasCost: trade.gasCost
+      };
+      if (trade.status === 'completed') {
+        decision?.pass('execution', executionData);
+        return trade;
       }
-
+      if (trade.status === 'failed') {
+        await this.returnUnusedFunding(walletIndex, fundFrom, funded, token);
+      }
+      decision?.reject(
+        'execution',
+        trade.status === 'pending' ? 'Swap not confirmed yet, still tracking' : trade.failureReason || 'Trade failed',
+        executionData
+      );
       return null;
     } catch (error) {
       this.logger.error('Error executing trade', { error, token });
+      decision?.fail('execution', error);
+      await this.returnUnusedFunding(walletIndex, fundFrom, funded, token);
       return null;
     }
   }
 
-  private async getAgentTemplate(token: string, sentiment: number, config: any) {
-    // Get AI recommendation for strategy
+  // A wallet funded for an agent whose opening trade then failed has no agent record pointing at
+  // it, so nothing would ever sweep it. Send the ETH back to where it came from, keeping only the
+  // gas buffer as sweeps do, and stop counting the wallet against the aggregate cap.
+  private async returnUnusedFunding(walletIndex: number, fromIndex: number, funded: FundingTransfer[], token: string) {
+    if (funded.length === 0 || this.agentAt(walletIndex)) return;
+
+    try {
+      const buffer = TokenAmount.parse(this.gasReserve, 18);
+      const eth = await this.walletEthBalance(walletIndex);
+      if (buffer.lt(eth)) {
+        await this.funder.recover(
+          walletIndex,
+          undefined,
+          [await this.fundingLeg('ETH', eth.sub(buffer))],
+          `Unused funding for ${token}`,
+          fromIndex
+        );
+      }
+    } catch (error) {
+      this.logger.error('Error returning unused funding', { error, derivationIndex: walletIndex, token });
+    } finally {
+      this.funder.release(walletIndex);
+    }
+  }
+
+  // From the validated config of the agent trading from the wallet; the treasury, and wallets
+  // whose agent is not spawned yet, use the template's default
+  private maxSlippageFor(walletIndex: number, template: string): number {
+    const configured = Number(this.agentAt(walletIndex)?.agent.config.config.maxSlippage);
+    if (configured > 0) return configured;
+    return getTemplate(template).params.maxSlippage?.default ?? 0.5;
+  }
+
+  private summarizeQuote(quote: SwapQuote): Trade['quote'] {
+    return {
+      expectedAmountOut: quote.amountOut.toString(),
+      minAmountOut: quote.minAmountOut.toString(),
+      priceImpact: quote.priceImpact,
+      route: {
+        tokens: quote.route.tokens,
+        fees: quote.route.fees
+      }
+    };
+  }
+
+  private async getAgentTemplate(token: string, sentiment: number, config: EvaluationResult['recommendedConfig']) {
+    const template = getTemplate(selectTemplate(sentiment));
+
+    // Get AI recommendation for strategy, starting from the template's defaults and the judge's config
     const strategy = await this.veniceAI.evaluateStrategy(
       token,
       sentiment,
-      'all',
-      config
+      template.name,
+      { ...templateDefaults(template), ...config }
     );
 
-    if (!strategy.shouldExecute) {
-      return null;
+    // Whatever the AI proposes is held to the template's schema before it reaches an agent
+    const validation = validateTemplateConfig(template, strategy.adjustedConfig);
+    if (validation.adjustments.length > 0) {
+      this.logger.warn('Strategy config adjusted to template bounds', {
+        token,
+        template: template.name,
+        adjustments: validation.adjustments
+      });
     }
 
-    // Use AI-recommended configuration
     return {
-      template: sentiment > 0.7 ? 'aggressive-long' :
-                sentiment > 0.3 ? 'conservative-long' :
-                sentiment < -0.7 ? 'aggressive-short' :
-                sentiment < -0.3 ? 'conservative-short' : 'neutral',
-      config: strategy.adjustedConfig,
+      shouldExecute: strategy.shouldExecute,
+      template: template.name,
+      proposedConfig: strategy.adjustedConfig,
+      config: validation.config,
+      adjustments: validation.adjustments,
       reasoning: strategy.reasoning
     };
   }
 
-  async spawnAgentsForToken(token: string) {
+  // The one path from market data to a live agent:
+  // analysis -> opportunity -> judge -> strategy -> risk -> execution -> agent.
+  // Every stage is written to the decision record, which is returned and persisted.
+  async spawnAgentsForToken(token: string, cycleId: string = `manual-${Date.now()}`): Promise<DecisionRecord> {
+    return this.withTokenLock(token, () => this.runDecision(token, cycleId));
+  }
+
+  private async runDecision(token: string, cycleId: string): Promise<DecisionRecord> {
+    const decision = new DecisionBuilder(cycleId, token);
+    let stage: DecisionStage = 'analysis';
+
     try {
-      // Get market analysis from Venice AI
+      // Analysis: is the signal strong enough to act on?
       const analysis = await this.sentimentAnalyzer.getMarketAnalysis(token);
       if (!analysis) {
-        this.logger.info('No market analysis available', { token });
-        return;
+        decision.reject(stage, 'No market analysis available');
+        return await this.decisions.complete(decision);
       }
 
-      // Check if we should spawn new agents
-      if (Math.abs(analysis.sentiment) < this.config.minSentiment) {
-        this.logger.info('Sentiment below threshold', { 
-          token, 
-          sentiment: analysis.sentiment,
-          reasoning: analysis.reasoning
-        });
-        return;
+      const analysisData = {
+        sentiment: analysis.sentiment,
+        confidence: analysis.confidence,
+        marketCondition: analysis.marketCondition,
+        totalEngagement: analysis.totalEngagement,
+        tweets: analysis.tweets.length,
+        reasoning: analysis.reasoning
+      };
+      const weakness = checkAnalysis(analysis, {
+        minSentiment: this.config.minSentiment,
+        minConfidence: this.config.minConfidence ?? 0.7
+      });
+      if (weakness) {
+        decision.reject(stage, weakness, analysisData);
+        return await this.decisions.complete(decision);
       }
+      decision.pass(stage, analysisData);
 
-      // Check active agents limit
+      // Opportunity: room for another agent on this token?
+      stage = 'opportunity';
       const activeAgentIds = this.activeAgents.get(token) || new Set();
       if (activeAgentIds.size >= this.config.maxAgentsPerToken) {
-        this.logger.info('Maximum agents already spawned', { token, count: activeAgentIds.size });
-        return;
+        decision.reject(stage, `Maximum of ${this.config.maxAgentsPerToken} agents already active`, {
+          activeAgents: activeAgentIds.size
+        });
+        return await this.decisions.complete(decision);
       }
+      decision.pass(stage, { activeAgents: activeAgentIds.size });
 
-      // Evaluate opportunity with AI insights
+      // Judge
+      stage = 'judge';
       const evaluation = await this.evaluateOpportunity(token, analysis);
       if (!evaluation.shouldSpawn) {
-        this.logger.info('Judge rejected opportunity', { 
-          token, 
-          sentiment: analysis.sentiment,
-          reasoning: analysis.reasoning
-        });
-        return;
+        decision.reject(stage, 'Judge rejected opportunity', { ...evaluation });
+        return await this.decisions.complete(decision);
+      }
+      decision.pass(stage, { ...evaluation });
+
+      // Strategy: template, AI adjustments and order size
+      stage = 'strategy';
+      const strategy = await this.getAgentTemplate(token, analysis.sentiment, evaluation.recommendedConfig);
+      if (!strategy.shouldExecute) {
+        decision.reject(stage, 'AI rejected strategy execution', { ...strategy });
+        return await this.decisions.complete(decision);
       }
 
-      // Execute trade based on sentiment
-      const tradeAmount = evaluation.recommendedConfig.capital.toString();
-      const tradeTx = await this.executeTrade(
-        token,
-        analysis.sentiment,
-        tradeAmount,
-        analysis
-      );
+      const type = analysis.sentiment > 0 ? 'buy' : 'sell';
+      const tradeSize = await this.calculatePositionSize(token, analysis.confidence, {
+        ...evaluation.recommendedConfig,
+        ...strategy.config
+      });
+      if (tradeSize === 0) {
+        decision.reject(stage, `Position size below minimum capital ${this.config.minCapital}`, { ...strategy, type });
+        return await this.decisions.complete(decision);
+      }
 
-      if (!tradeTx) {
-        this.logger.warn('Trade execution failed', { token });
-        return;
+      // Buys are sized in ETH and made from a fresh agent wallet derived from the treasury mnemonic.
+      // Sells convert that size into tokens and come from the wallet holding the most of them.
+      const sell = type === 'sell' ? await this.sellAmount(token, tradeSize) : null;
+      if (type === 'sell' && !sell) {
+        decision.reject(stage, 'No position to sell', { ...strategy, type });
+        return await this.decisions.complete(decision);
       }
+      const amount = sell ? sell.amount : tradeSize.toString();
+      const walletIndex = sell ? sell.walletIndex : this.agentWallets.allocate();
+      const parent = !sell && this.fundingSource === 'parent'
+        ? await this.selectParent(token, tradeSize + this.gasReserve)
+        : null;
+      decision.pass(stage, {
+        ...strategy,
+        type,
+        size: tradeSize,
+        amount,
+        sizing: this.positionSizer.strategy,
+        derivationIndex: walletIndex,
+        parentId: parent?.agent.id
+      });
 
-      // Get AI-recommended strategy
-      const strategy = await this.getAgentTemplate(
+      // Risk, funding and execution are recorded by executeTrade
+      stage = 'execution';
+      const trade = await this.executeTrade(
         token,
-        analysis.sentiment,
-        evaluation.recommendedConfig
+        type,
+        amount,
+        strategy.template,
+        analysis.reasoning,
+        undefined,
+        decision,
+        walletIndex,
+        parent?.agent.derivationIndex,
+        undefined,
+        strategy.config.maxSlippage,
+        // A buy still unconfirmed here starts its agent once it fills
+        async settled => {
+          if (settled.type !== 'buy' || settled.status !== 'completed') return;
+          const agent = await this.startAgent(token, settled, strategy.template, strategy.config, tradeSize, walletIndex, parent);
+          this.logger.info('Spawned agent once its opening trade settled', { token, cycleId, agentId: agent.id, tradeTxHash: settled.txHash });
+        }
       );
+      if (!trade) {
+        return await this.decisions.complete(decision);
+      }
+      decision.record.tradeId = trade.id;
 
-      if (!strategy) {
-        this.logger.info('AI rejected strategy execution', { token });
-        return;
+      // Selling trims an existing agent's holding; only buys start a new agent
+      if (trade.type === 'sell') {
+        return await this.decisions.complete(decision, 'traded');
       }
 
-      // Spawn agent with AI-optimized configuration
-      const agent = await this.agentFactory.spawn({
+      stage = 'agent';
+      const agent = await this.startAgent(token, trade, strategy.template, strategy.config, tradeSize, walletIndex, parent);
+
+      decision.record.agentId = agent.id;
+      decision.pass(stage, {
+        agentId: agent.id,
         template: strategy.template,
-        config: {
-          ...strategy.config,
-          tradeTxHash: tradeTx.hash
-        },
-        funding: 'treasury'
+        address: agent.address,
+        derivationIndex: agent.derivationIndex
       });
 
-      // Track new agent
-      if (!this.activeAgents.has(token)) {
-        this.activeAgents.set(token, new Set());
-      }
-      this.activeAgents.get(token)!.add(agent.id);
-
       this.logger.info('Spawned new AI-driven agent with trade execution', {
         token,
         sentiment: analysis.sentiment,
         marketCondition: analysis.marketCondition,
         agentId: agent.id,
         template: strategy.template,
-        tradeTxHash: tradeTx.hash,
+        tradeTxHash: trade.txHash,
         reasoning: strategy.reasoning
       });
 
-      return agent;
-
+      return await this.decisions.complete(decision, 'spawned');
     } catch (error) {
-      this.logger.error('Error spawning agents', { error, token });
+      this.logger.error('Error spawning agents', { error, token, stage });
+      decision.fail(stage, error);
+      return await this.decisions.complete(decision);
+    }
+  }
+
+  // Deploys the agent for a filled opening buy in a wallet nothing else trades from, and puts it
+  // under health monitoring
+  private async startAgent(
+    token: string,
+    trade: Trade,
+    templateName: string,
+    config: TemplateConfig,
+    capital: number,
+    walletIndex: number,
+    parent: AgentRecord | null
+  ): Promise<SpawnedAgent> {
+    const template = getTemplate(templateName);
+    await this.setExitRules(token, template.exits(config));
+
+    const agent = await this.agentFactory.spawn({
+      template: templateName,
+      config: {
+        ...config,
+        maxSlippage: config.maxSlippage,
+        capital,
+        targetPool: this.tokenRegistry.getAddress(token)!,
+        tradeTxHash: trade.txHash
+      },
+      funding: parent ? 'parent' : 'treasury',
+      parentId: parent?.agent.id
+    }, walletIndex, {
+      token,
+      tokenAddress: this.tokenRegistry.getAddress(token)!,
+      state: this.openingState(trade)
+    });
+
+    // Thresholds come from the environment; the template can tune its own rules and warm-up
+    const healthConfig: HealthConfig = {
+      maxLoss: Number(process.env.MAX_LOSS_PERCENTAGE) || 20,
+      maxInactivity: Number(process.env.MAX_INACTIVITY_HOURS) || 2,
+      minROI: Number(process.env.MIN_ROI_PERCENTAGE) || 15,
+      checkInterval: 60000, // 1 minute
+      warmup: template.health?.warmup ?? (Number(process.env.HEALTH_WARMUP_MINUTES) || 60) * 60 * 1000,
+      rules: template.health?.rules
+    };
+
+    await this.trackAgent({ agent, token, healthConfig, status: 'active' });
+    await this.healthMonitor.monitorAgent(agent, healthConfig);
+    return agent;
+  }
+
+  private openingState(trade: Trade): TemplateState {
+    const price = Number(trade.price);
+    return {
+      entryPrice: price,
+      lastBuyPrice: price,
+      holding: Number(trade.fill?.amountOut || 0),
+      adds: 0,
+      trimmed: false,
+      pending: false
+    };
+  }
+
+  // Converts an ETH-denominated size into a token amount, capped at the open position
+  // and to what the largest holding wallet can sell
+  private async sellAmount(token: string, size: number): Promise<{ amount: string; walletIndex: number } | null> {
+    const position = this.positions.get(token);
+    if (!position || !(Number(position.amount) > 0)) {
+      return null;
+    }
+
+    const [holder] = this.holdings(position).sort((a, b) => Number(b.amount) - Number(a.amount));
+    if (!holder) {
       return null;
     }
+
+    const { spot } = await this.getTokenPrice(position.tokenAddress);
+    const wanted = Number(spot) > 0 ? size / Number(spot) : Number(holder.amount);
+    const amount = await this.tokenMetadata.parse(position.tokenAddress, Math.min(wanted, Number(holder.amount)));
+    return amount.isZero() ? null : { amount: amount.format(), walletIndex: holder.walletIndex };
+  }
+
+  // Per-wallet holdings of a position; positions opened before agent wallets sit with the treasury
+  private holdings(position: Position): { address: string; walletIndex: number; amount: string }[] {
+    const holders = position.holders || { [this.wallet.address.toLowerCase()]: position.amount };
+    const holdings: { address: string; walletIndex: number; amount: string }[] = [];
+    for (const [address, amount] of Object.entries(holders)) {
+      const walletIndex = this.agentWallets.indexOf(address);
+      if (walletIndex === undefined) {
+        this.logger.warn('Position held by an unknown wallet', { token: position.token, address });
+        continue;
+      }
+      if (Number(amount) > 0) {
+        holdings.push({ address, walletIndex, amount });
+      }
+    }
+    return holdings;
   }
 
   async monitorAndSpawn(tokens: string[]) {
@@ -364,6 +1251,10 @@ export class AgentSpawner {
     }
   }
 
+  getDecisionLog(): DecisionLog {
+    return this.decisions;
+  }
+
   async getStatus(): Promise<SystemStatus> {
     const tokens: Record<string, any> = {};
     
@@ -381,33 +1272,25 @@ export class AgentSpawner {
       totalAgents: Array.from(this.activeAgents.values())
         .reduce((sum, agents) => sum + agents.size, 0),
       lastAnalysis: Date.now(),
-      uptime: Date.now() - this.startTime
+      uptime: Date.now() - this.startTime,
+      risk: this.riskEngine.getStatus()
     };
   }
 
-  private async getTokenPrice(tokenAddress: string): Promise<string> {
-    try {
-      // Get WETH price for the token using Uniswap V3 pool
-      const poolContract = new ethers.Contract(
-        UNISWAP_V3_ROUTER,
-        ['function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)'],
-        this.provider
-      );
-
-      const slot0 = await poolContract.slot0();
-      const sqrtPriceX96 = slot0.sqrtPriceX96;
-      
-      // Convert sqrtPriceX96 to actual price
-      const price = (Number(sqrtPriceX96) ** 2 * 2 ** 192) / (2 ** 96) ** 2;
-      return price.toString();
-    } catch (error) {
-      this.logger.error('Error getting token price', { error, tokenAddress });
-      return '0';
+  // Prices are quoted in ETH per whole token
+  private async getTokenPrice(tokenAddress: string): Promise<{ spot: string; twap: string }> {
+    const price = await this.priceOracle.getPrice(tokenAddress);
+    if (!price) {
+      return { spot: '0', twap: '0' };
     }
+    return {
+      spot: price.spot.toString(),
+      twap: (price.twap ?? price.spot).toString()
+    };
   }
 
   private async updatePosition(token: string, trade: Trade) {
-    const tokenAddress = TOKEN_ADDRESSES[token];
+    const tokenAddress = this.tokenRegistry.getAddress(token);
     if (!tokenAddress) return;
 
     const currentPosition = this.positions.get(token) || {
@@ -415,66 +1298,301 @@ export class AgentSpawner {
       amount: '0',
       entryPrice: '0',
       currentPrice: '0',
+      twapPrice: '0',
       pnl: '0',
       strategy: 'sentiment-based',
       lastUpdate: Date.now(),
       tokenAddress
     };
 
-    const currentPrice = await this.getTokenPrice(tokenAddress);
-    const tradeAmount = ethers.parseEther(trade.amount);
-    const currentAmount = ethers.parseEther(currentPosition.amount);
+    const { spot, twap } = await this.getTokenPrice(tokenAddress);
+    if (Number(trade.price) === 0) {
+      trade.price = spot;
+    }
 
-    if (trade.type === 'buy') {
-      const newAmount = currentAmount + tradeAmount;
-      const newEntryPrice = (
-        (currentAmount * BigInt(currentPosition.entryPrice) + 
-        tradeAmount * BigInt(trade.price)) / newAmount
-      ).toString();
+    const tradePrice = Number(trade.price);
+    const currentAmount = await this.tokenMetadata.parse(tokenAddress, currentPosition.amount);
 
-      currentPosition.amount = ethers.formatEther(newAmount);
-      currentPosition.entryPrice = newEntryPrice;
+    // Track which wallet holds what so sells and exits are signed by the right key
+    const holder = (trade.wallet?.address || this.wallet.address).toLowerCase();
+    const holders = currentPosition.holders ||
+      (currentAmount.isZero() ? {} : { [this.wallet.address.toLowerCase()]: currentPosition.amount });
+    const held = await this.tokenMetadata.parse(tokenAddress, holders[holder] || '0');
+
+    if (trade.type === 'buy') {
+      // Buys are sized in ETH, so use the token amount received
+      const tokenAmount = await this.tokenMetadata.parse(
+        tokenAddress,
+        trade.fill
+          ? trade.fill.amountOut
+          : tradePrice > 0 ? Number(trade.amount) / tradePrice : 0
+      );
+      const newAmount = currentAmount.add(tokenAmount);
+      if (currentAmount.isZero()) {
+        currentPosition.openedAt = Date.now();
+        currentPosition.peakPrice = tradePrice.toString();
+      }
+      const newEntryPrice = newAmount.isZero()
+        ? 0
+        : (currentAmount.toNumber() * Number(currentPosition.entryPrice) + tokenAmount.toNumber() * tradePrice) /
+          newAmount.toNumber();
+
+      currentPosition.amount = newAmount.format();
+      currentPosition.entryPrice = newEntryPrice.toString();
+      holders[holder] = held.add(tokenAmount).format();
     } else {
-      const newAmount = currentAmount - tradeAmount;
-      currentPosition.amount = ethers.formatEther(newAmount);
+      const soldAmount = await this.tokenMetadata.parse(
+        tokenAddress,
+        trade.fill ? trade.fill.amountIn : trade.amount
+      );
+      const newAmount = soldAmount.gte(currentAmount)
+        ? TokenAmount.zero(currentAmount.decimals)
+        : currentAmount.sub(soldAmount);
+      const closedAmount = currentAmount.sub(newAmount);
+      if (soldAmount.gte(held)) {
+        delete holders[holder];
+      } else {
+        holders[holder] = held.sub(soldAmount).format();
+      }
+      trade.realizedPnl = (
+        (tradePrice - Number(currentPosition.entryPrice)) * closedAmount.toNumber()
+      ).toString();
+      currentPosition.amount = newAmount.format();
+      if (newAmount.isZero()) {
+        currentPosition.openedAt = undefined;
+        currentPosition.peakPrice = undefined;
+        currentPosition.exit = undefined;
+      }
     }
 
-    currentPosition.currentPrice = currentPrice;
+    currentPosition.holders = holders;
+    currentPosition.currentPrice = spot;
+    currentPosition.twapPrice = twap;
     currentPosition.lastUpdate = Date.now();
 
     // Calculate PnL
     const pnl = (
-      (Number(currentPrice) - Number(currentPosition.entryPrice)) * 
+      (Number(spot) - Number(currentPosition.entryPrice)) * 
       Number(currentPosition.amount)
     ).toString();
     currentPosition.pnl = pnl;
 
     this.positions.set(token, currentPosition);
+    await this.store.savePosition(currentPosition);
     this.logger.info('Position updated', { token, position: currentPosition });
   }
 
   private async _recordTrade(trade: Trade) {
     this.tradeHistory.push(trade);
-    await this.updatePosition(trade.token, trade);
+    this.riskEngine.recordTrade(trade);
+    // The swap is already broadcast, so settlement must still run; it saves the trade again
+    await this.store.saveTrade(trade).catch(error => {
+      this.logger.error('Error persisting submitted trade', { error, tradeId: trade.id });
+    });
+    await this.events.publish('TradeSubmitted', { trade: { ...trade } });
     
-    // Keep only last 100 trades
+    // Keep only last 100 trades in memory; the store keeps the full history
     if (this.tradeHistory.length > 100) {
       this.tradeHistory = this.tradeHistory.slice(-100);
     }
   }
 
+  // Waits for the swap to settle and fills in the actual amounts and effective price. A swap still
+  // pending is tracked in the background, and onLateSettlement runs once it finally settles.
+  private async _settleTrade(
+    trade: Trade,
+    result: SwapResult,
+    executor: TradeExecutor,
+    onLateSettlement?: (trade: Trade) => Promise<void>,
+    late: boolean = false
+  ) {
+    const tokenAddress = this.tokenRegistry.getAddress(trade.token)!;
+
+    try {
+      const tracked = await executor.waitForSettlement(result);
+      trade.txHash = tracked.hash;
+      trade.gasCost = new TokenAmount(tracked.gasCost, 18).format();
+
+      if (tracked.outcome === 'confirmed') {
+        if (tracked.fill) {
+          const [ethRaw, tokenRaw] = trade.type === 'buy'
+            ? [tracked.fill.amountIn, tracked.fill.amountOut]
+            : [tracked.fill.amountOut, tracked.fill.amountIn];
+          const ethAmount = new TokenAmount(ethRaw, 18);
+          const tokenAmount = await this.tokenMetadata.fromRaw(tokenAddress, tokenRaw);
+
+          trade.fill = {
+            amountIn: (trade.type === 'buy' ? ethAmount : tokenAmount).format(),
+            amountOut: (trade.type === 'buy' ? tokenAmount : ethAmount).format(),
+            gasUsed: tracked.gasUsed.toString()
+          };
+          if (!tokenAmount.isZero()) {
+            trade.price = (ethAmount.toNumber() / tokenAmount.toNumber()).toString();
+          }
+        }
+
+        trade.status = 'completed';
+        await this.updatePosition(trade.token, trade);
+      } else if (tracked.outcome === 'pending') {
+        // The swap can still mine, so it must not be failed and left out of the position
+        trade.status = 'pending';
+      } else {
+        trade.status = 'failed';
+        trade.failureReason = tracked.reason || tracked.outcome;
+      }
+    } catch (error) {
+      this.logger.error('Error settling trade', { error, txHash: trade.txHash });
+      trade.status = 'failed';
+      trade.failureReason = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    this.riskEngine.recordTrade(trade);
+    await this.store.saveTrade(trade);
+
+    if (trade.status === 'pending') {
+      this.logger.warn('Trade not settled yet, still tracking', { token: trade.token, txHash: trade.txHash });
+      this._settleTrade(trade, result, executor, onLateSettlement, true).catch(error => {
+        this.logger.error('Error tracking pending trade', { error, txHash: trade.txHash });
+      });
+      return;
+    }
+
+    this.logger.info('Trade settled', {
+      token: trade.token,
+      type: trade.type,
+      status: trade.status,
+      price: trade.price,
+      fill: trade.fill,
+      gasCost: trade.gasCost,
+      txHash: trade.txHash,
+      failureReason: trade.failureReason
+    });
+
+    const agentIds = Array.from(this.activeAgents.get(trade.token) || []);
+    await this.events.publish(trade.status === 'completed' ? 'TradeConfirmed' : 'TradeFailed', { trade, agentIds });
+
+    // The caller gave up waiting, so whatever it would have done with the result happens now
+    if (late && onLateSettlement) {
+      await this.withTokenLock(trade.token, () => onLateSettlement(trade));
+    }
+  }
+
+  private async setExitRules(token: string, exit: ExitConfig) {
+    const position = this.positions.get(token);
+    if (!position) return;
+
+    position.exit = { ...position.exit, ...exit };
+    await this.store.savePosition(position);
+    this.logger.info('Exit rules set', { token, rules: this.exitManager.getRules(position) });
+  }
+
+  // Closes any open position whose stop-loss, trailing stop, take-profit or holding time was hit
+  async checkExits(cycleId: string = `manual-${Date.now()}`): Promise<DecisionRecord[]> {
+    const records: DecisionRecord[] = [];
+
+    for (const token of Array.from(this.positions.keys())) {
+      try {
+        const record = await this.withTokenLock(token, () => this.checkExit(token, cycleId));
+        if (record) {
+          records.push(record);
+        }
+      } catch (error) {
+        this.logger.error('Error checking exits', { error, token });
+      }
+    }
+
+    return records;
+  }
+
+  // Reads the position only once any other work on the token has finished with it
+  private async checkExit(token: string, cycleId: string): Promise<DecisionRecord | null> {
+    const position = this.positions.get(token);
+    if (!position || !(Number(position.amount) > 0)) return null;
+
+    // TWAP is harder to push around than spot, so exits key off it
+    const { twap } = await this.getTokenPrice(position.tokenAddress);
+    const peakBefore = position.peakPrice;
+    const signal = this.exitManager.evaluate(position, Number(twap));
+
+    if (signal) {
+      return await this.closePosition(position, signal, cycleId);
+    }
+    if (position.peakPrice !== peakBefore) {
+      await this.store.savePosition(position);
+    }
+    return null;
+  }
+
+  private async closePosition(position: Position, signal: ExitSignal, cycleId: string): Promise<DecisionRecord> {
+    const decision = new DecisionBuilder(cycleId, position.token);
+    decision.pass('exit', {
+      ...signal,
+      entryPrice: position.entryPrice,
+      peakPrice: position.peakPrice,
+      amount: position.amount,
+      rules: this.exitManager.getRules(position)
+    });
+
+    // Each wallet sells its own holding
+    const trades: Trade[] = [];
+    for (const holding of this.holdings(position)) {
+      const trade = await this.executeTrade(
+        position.token,
+        'sell',
+        holding.amount,
+        position.strategy,
+        [signal.detail],
+        signal.reason,
+        decision,
+        holding.walletIndex
+      );
+      if (trade) {
+        trades.push(trade);
+      } else {
+        this.logger.warn('Exit order did not complete', {
+          token: position.token,
+          reason: signal.reason,
+          wallet: holding.address
+        });
+      }
+    }
+    if (trades.length === 0) {
+      return await this.decisions.complete(decision);
+    }
+    decision.record.tradeId = trades[0].id;
+
+    // Tell every agent trading this token that its position is gone
+    for (const agentId of this.activeAgents.get(position.token) || new Set<string>()) {
+      const record = this.agentRecords.get(agentId);
+      if (!record) continue;
+      const trade = trades.find(entry => entry.wallet?.address === record.agent.address) || trades[0];
+      await this.agentFactory.notify(record.agent, {
+        type: 'position-closed',
+        token: position.token,
+        reason: signal.reason,
+        detail: signal.detail,
+        tradeId: trade.id,
+        txHash: trade.txHash,
+        realizedPnl: trade.realizedPnl
+      });
+    }
+
+    return await this.decisions.complete(decision, 'traded');
+  }
+
   async getActivePositions(): Promise<Position[]> {
     const positions: Position[] = [];
     
     for (const [token, position] of this.positions.entries()) {
       try {
         // Update current price
-        const currentPrice = await this.getTokenPrice(position.tokenAddress);
-        position.currentPrice = currentPrice;
+        const { spot, twap } = await this.getTokenPrice(position.tokenAddress);
+        position.currentPrice = spot;
+        position.twapPrice = twap;
 
         // Update PnL
         position.pnl = (
-          (Number(currentPrice) - Number(position.entryPrice)) * 
+          (Number(spot) - Number(position.entryPrice)) * 
           Number(position.amount)
         ).toString();
 
@@ -492,12 +1610,18 @@ export class AgentSpawner {
     
     for (const [token, agentIds] of this.activeAgents.entries()) {
       for (const id of agentIds) {
+        const record = this.agentRecords.get(id);
         agents.push({
           id,
           token,
+          address: record?.agent.address ?? this.wallet.address,
+          derivationIndex: record?.agent.derivationIndex,
+          deployment: record?.agent.deployment,
+          funded: record ? this.funder.netFunding(record.agent.derivationIndex) : undefined,
+          health: this.healthMonitor.getHealth(id) ?? undefined,
           strategy: 'sentiment-based',
           status: 'active',
-          spawnTime: Date.now(), // Replace with actual spawn time tracking
+          spawnTime: record?.agent.deployedAt ?? this.startTime,
           lastAction: {
             type: 'monitor',
             timestamp: Date.now()
@@ -515,8 +1639,18 @@ export class AgentSpawner {
 
   async getTokenBalances(address: string): Promise<Record<string, string>> {
     const balances: Record<string, string> = {};
+
+    // Paper mode reports the wallet's virtual balance sheet instead of on-chain balances
+    const paper = this.executors.get(this.agentWallets.indexOf(address) ?? 0);
+    if (paper instanceof PaperTradingService) {
+      for (const [token, tokenAddress] of Object.entries(this.getTokenAddresses())) {
+        const balance = await this.tokenMetadata.fromRaw(tokenAddress, paper.getBalance(tokenAddress));
+        balances[token] = balance.format();
+      }
+      return balances;
+    }
     
-    for (const [token, tokenAddress] of Object.entries(TOKEN_ADDRESSES)) {
+    for (const [token, tokenAddress] of Object.entries(this.getTokenAddresses())) {
       try {
         const contract = new ethers.Contract(
           tokenAddress,
@@ -524,8 +1658,8 @@ export class AgentSpawner {
           this.provider
         );
         
-        const balance = await contract.balanceOf(address);
-        balances[token] = ethers.formatEther(balance);
+        const balance = await this.tokenMetadata.fromRaw(tokenAddress, await contract.balanceOf(address));
+        balances[token] = balance.format();
       } catch (error) {
         this.logger.error('Error getting token balance', { error, token });
         balances[token] = '0.0';
@@ -535,113 +1669,177 @@ export class AgentSpawner {
     return balances;
   }
 
-  getWalletPrivateKey(): string {
-    return this.wallet.privateKey;
+  getTokenAddresses(): Record<string, string> {
+    return this.tokenRegistry.getAddressMap();
   }
 
-  async checkAndSpawnAgents(): Promise<void> {
-    for (const token of this.monitoredTokens) {
-      try {
-        // Get market analysis
-        const analysis = await this.sentimentAnalyzer.getMarketAnalysis(token);
-        if (!analysis) continue;
+  getTokenRegistry(): TokenRegistry {
+    return this.tokenRegistry;
+  }
 
-        this.logger.info('Market analysis', { token, analysis });
+  // Exits and sweeps look tokens up in the registry, so a token with an open position or live
+  // agents can only be disabled
+  removeToken(symbol: string): boolean {
+    const token = symbol.toUpperCase();
+    const position = this.positions.get(token);
+    if (position && (Number(position.amount) > 0 || Object.keys(position.holders || {}).length > 0)) {
+      throw new Error(`Token ${token} has an open position; close it or disable the token instead`);
+    }
+    if ((this.activeAgents.get(token)?.size || 0) > 0) {
+      throw new Error(`Token ${token} has active agents; disable the token instead`);
+    }
 
-        // Check if we should spawn an agent
-        if (analysis.sentiment >= this.config.minSentiment && analysis.confidence >= 0.7) {
-          // Calculate position size based on confidence
-          const positionSize = this.calculatePositionSize(analysis.confidence);
+    const removed = this.tokenRegistry.remove(token);
+    this.syncTokenJobs();
+    return removed;
+  }
 
-          // Execute trade
-          await this.executeTrade(token, analysis.sentiment, positionSize.toString(), analysis);
+  getWalletPrivateKey(): string {
+    return this.wallet.privateKey;
+  }
 
-          // Spawn agent to monitor position
-          const agentId = await this.spawnAgent(token, analysis);
-          if (agentId) {
-            this.logger.info('Spawned agent', { token, agentId });
-          }
-        }
-      } catch (error) {
-        this.logger.error('Error checking token', { token, error });
-      }
+  // One monitoring cycle: exits first, then every tradable token through the decision pipeline
+  async checkAndSpawnAgents(): Promise<DecisionRecord[]> {
+    const cycleId = `cycle-${Date.now()}`;
+    const records: DecisionRecord[] = [];
+
+    records.push(...await this.checkExits(cycleId));
+
+    const monitoredTokens = this.tokenRegistry.getTradable().map(config => config.symbol);
+    for (const token of monitoredTokens) {
+      records.push(await this.spawnAgentsForToken(token, cycleId));
     }
+
+    this.logger.info('Decision cycle completed', {
+      cycleId,
+      outcomes: records.map(record => ({ token: record.token, outcome: record.outcome, decidedAt: record.decidedAt }))
+    });
+    return records;
   }
 
-  private calculatePositionSize(confidence: number): number {
-    // Scale position size between minCapital and maxCapital based on confidence
-    const scale = (confidence - 0.7) / 0.3; // 0.7 to 1.0 mapped to 0 to 1
-    return this.config.minCapital + (this.config.maxCapital - this.config.minCapital) * scale;
+  // Sizes an order in ETH; returns 0 when the bounded size falls below minCapital
+  private async calculatePositionSize(
+    token: string,
+    confidence: number,
+    recommended?: EvaluationResult['recommendedConfig']
+  ): Promise<number> {
+    const tokenAddress = this.tokenRegistry.getAddress(token)!;
+    const walletBalance = await this.getEthBalance();
+
+    // Reading the price also records a sample for the volatility estimate
+    await this.getTokenPrice(tokenAddress);
+    const volatility = this.priceOracle.getHistory().realizedVolatility(tokenAddress);
+
+    const raw = this.positionSizer.size({
+      token,
+      confidence,
+      walletBalance,
+      volatility,
+      payoffRatio: recommended && recommended.stopLoss > 0
+        ? recommended.targetProfit / recommended.stopLoss
+        : undefined
+    });
+
+    const size = boundPositionSize(raw, {
+      walletBalance,
+      minCapital: this.config.minCapital,
+      maxCapital: this.config.maxCapital,
+      recommendedCapital: recommended?.capital
+    });
+
+    this.logger.info('Calculated position size', {
+      token,
+      strategy: this.positionSizer.strategy,
+      confidence,
+      volatility,
+      raw,
+      size
+    });
+
+    return size;
   }
 
-  private async spawnAgent(token: string, analysis: MarketAnalysis): Promise<string | null> {
-    try {
-      // Check if we have too many agents for this token
-      const existingAgents = this.activeAgents.get(token) || new Set();
-      if (existingAgents.size >= this.config.maxAgentsPerToken) {
-        this.logger.warn('Maximum agents reached for token', { token });
-        return null;
-      }
+  // Registers the exit check and one decision job per enabled token; each runs right away
+  async startMonitoring(): Promise<void> {
+    const interval = this.config.monitoringInterval || 5 * 60 * 1000;
+    this.scheduler.add('exits', async () => {
+      await this.checkExits(`exits-${Date.now()}`);
+    }, {
+      interval: Number(process.env.EXIT_CHECK_INTERVAL) || interval,
+      runImmediately: true,
+      group: 'exits'
+    });
+    this.syncTokenJobs();
+  }
 
-      // Generate unique agent ID
-      const agentId = `${token}-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+  // Adds, retimes or drops decision jobs to match the tradable tokens; call after registry edits
+  syncTokenJobs(): void {
+    const enabled = new Map(this.tokenRegistry.getTradable().map(config => [`decision:${config.symbol}`, config]));
+    const scheduled = new Map(this.scheduler.list('decision').map(job => [job.id, job]));
 
-      // Add agent to active agents
-      if (!this.activeAgents.has(token)) {
-        this.activeAgents.set(token, new Set());
+    for (const id of scheduled.keys()) {
+      if (!enabled.has(id)) {
+        this.scheduler.remove(id);
       }
-      this.activeAgents.get(token)?.add(agentId);
-
-      // Start health monitoring
-      const healthConfig: HealthConfig = {
-        maxLoss: Number(process.env.MAX_LOSS_PERCENTAGE) || 20,
-        maxInactivity: Number(process.env.MAX_INACTIVITY_HOURS) || 2,
-        minROI: Number(process.env.MIN_ROI_PERCENTAGE) || 15,
-        checkInterval: 60000 // 1 minute
-      };
+    }
 
-      // Create mock agent for monitoring
-      const mockAgent = {
-        id: agentId,
-        address: this.wallet.address,
-        config: {
-          template: 'sentiment-based',
-          config: {
-            capital: this.calculatePositionSize(analysis.confidence),
-            targetPool: TOKEN_ADDRESSES[token],
-            maxSlippage: 0.005
-          },
-          funding: 'treasury' as const
-        },
-        deployedAt: Date.now()
-      };
+    for (const [id, config] of enabled) {
+      const interval = config.interval
+        ? config.interval * 1000
+        : this.config.monitoringInterval || 5 * 60 * 1000;
+      const job = scheduled.get(id);
+      if (!job) {
+        this.scheduler.add(id, () => this.runTokenCycle(config.symbol), {
+          interval,
+          runImmediately: true,
+          group: 'decision'
+        });
+      } else if (job.interval !== interval) {
+        this.scheduler.setInterval(id, interval);
+      }
+    }
+  }
 
-      await this.healthMonitor.monitorAgent(mockAgent, healthConfig);
+  // Throws on an errored decision so the scheduler backs off
+  private async runTokenCycle(token: string): Promise<void> {
+    const record = await this.spawnAgentsForToken(token, `cycle-${token}-${Date.now()}`);
+    this.logger.info('Decision cycle completed', {
+      cycleId: record.cycleId,
+      token,
+      outcome: record.outcome,
+      decidedAt: record.decidedAt
+    });
+    if (record.outcome === 'error') {
+      throw new Error(`Decision cycle for ${token} failed at ${record.decidedAt || 'unknown stage'}`);
+    }
+  }
 
-      this.logger.info('Agent spawned', {
-        agentId,
-        token,
-        sentiment: analysis.sentiment,
-        confidence: analysis.confidence
-      });
+  getScheduler(): Scheduler {
+    return this.scheduler;
+  }
 
-      return agentId;
-    } catch (error) {
-      this.logger.error('Error spawning agent', { token, error });
-      return null;
+  // Sends extra ETH or tokens from the treasury to a live agent, within the funding caps
+  async fundAgent(agentId: string, amount: number, symbol: string = 'ETH'): Promise<FundingTransfer[]> {
+    const record = this.agentRecords.get(agentId);
+    if (!record) {
+      throw new Error(`No active agent ${agentId}`);
     }
+    return this.funder.fund({
+      source: 'treasury',
+      fromIndex: 0,
+      toIndex: record.agent.derivationIndex,
+      agentId,
+      purpose: 'Manual funding',
+      legs: [await this.fundingLeg(symbol, amount)]
+    });
   }
 
-  async startMonitoring(): Promise<void> {
-    await this.checkAndSpawnAgents();
-    this.logger.info('Initial monitoring check completed');
-    
-    setInterval(async () => {
-      try {
-        await this.checkAndSpawnAgents();
-      } catch (error) {
-        this.logger.error('Error in monitoring interval', { error });
-      }
-    }, 5 * 60 * 1000); // Check every 5 minutes
+  getFunding(agentId?: string): { limits: FundingLimits; total: number; transfers: FundingTransfer[] } {
+    const index = agentId ? this.agentRecords.get(agentId)?.agent.derivationIndex : undefined;
+    return {
+      limits: this.funder.getLimits(),
+      total: this.funder.totalFunding(),
+      transfers: agentId && index === undefined ? [] : this.funder.history(index)
+    };
   }
 } 
\ No newline at end of file
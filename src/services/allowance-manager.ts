@@ -0,0 +1,180 @@
+import { ethers } from 'ethers';
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import IERC20 from '@openzeppelin/contracts/build/contracts/IERC20.json';
+import { TokenMetadataRegistry } from './token-metadata';
+import { GasPolicy } from './gas-policy';
+import { TransactionQueue, getTransactionQueue } from './transaction-queue';
+import { TokenAmount } from '../utils/token-amount';
+
+// Permit2 is not offered: SwapRouter02 pulls tokens with a plain transferFrom, so it cannot spend
+// a Permit2 allowance
+export type AllowancePolicy = 'exact' | 'capped';
+
+const POLICIES: AllowancePolicy[] = ['exact', 'capped'];
+
+// Reads a policy name from config; a typo must not silently skip approvals
+export function parseAllowancePolicy(value: string | undefined, fallback: AllowancePolicy = 'exact'): AllowancePolicy {
+  if (!value) return fallback;
+  if (!POLICIES.includes(value as AllowancePolicy)) {
+    throw new Error(`Unknown allowance policy "${value}", expected one of ${POLICIES.join(', ')}`);
+  }
+  return value as AllowancePolicy;
+}
+
+export interface AllowanceConfig {
+  policy: AllowancePolicy;
+  defaultCap: string;               // Standing allowance for 'capped', in whole tokens
+  caps: Record<string, string>;     // Per-token overrides keyed by lowercase address
+}
+
+export interface AllowanceInfo {
+  symbol: string;
+  token: string;
+  spender: string;
+  allowance: string;
+  unlimited: boolean;
+}
+
+// Treat anything above 2^128 as an "infinite" approval
+const UNLIMITED_THRESHOLD = BigInt(2) ** BigInt(128);
+
+export class AllowanceManager {
+  private logger: Logger;
+  private wallet: ethers.Wallet;
+  private tokens: TokenMetadataRegistry;
+  private txQueue: TransactionQueue;
+
+  constructor(
+    wallet: ethers.Wallet,
+    private spender: string,
+    private gasPolicy: GasPolicy,
+    private config: AllowanceConfig = {
+      policy: 'exact',
+      defaultCap: '0',
+      caps: {}
+    }
+  ) {
+    parseAllowancePolicy(config.policy);
+    this.logger = createLogger('AllowanceManager');
+    this.wallet = wallet;
+    this.tokens = new TokenMetadataRegistry(wallet.provider!);
+    this.txQueue = getTransactionQueue(wallet);
+  }
+
+  getPolicy(): AllowancePolicy {
+    return this.config.policy;
+  }
+
+  private _token(tokenAddress: string): ethers.Contract {
+    return new ethers.Contract(tokenAddress, IERC20.abi, this.wallet);
+  }
+
+  private async _send(description: string, populated: Promise<ethers.ContractTransaction>, estimate: () => Promise<bigint>) {
+    const gas = await this.gasPolicy.prepare(estimate);
+    const tx = await this.txQueue.submit(description, { ...(await populated), ...gas });
+    await tx.wait();
+    return tx;
+  }
+
+  async getAllowance(tokenAddress: string, spender: string = this.spender): Promise<TokenAmount> {
+    const raw: bigint = await this._token(tokenAddress).allowance(this.wallet.address, spender);
+    return await this.tokens.fromRaw(tokenAddress, raw);
+  }
+
+  async approve(tokenAddress: string, amount: TokenAmount, spender: string = this.spender): Promise<void> {
+    const token = this._token(tokenAddress);
+    const tx = await this._send(
+      `approve ${tokenAddress}`,
+      token.approve.populateTransaction(spender, amount.raw),
+      () => token.approve.estimateGas(spender, amount.raw)
+    );
+
+    this.logger.info('Approved token spending', {
+      token: tokenAddress,
+      spender,
+      amount: amount.format(),
+      policy: this.config.policy,
+      txHash: tx.hash
+    });
+  }
+
+  // Makes sure the spender can pull `amount`, following the configured policy
+  async ensureAllowance(tokenAddress: string, amount: TokenAmount): Promise<void> {
+    switch (this.config.policy) {
+      case 'exact': {
+        // Reset to exactly this trade so nothing is left standing once the router pulls it
+        const current = await this.getAllowance(tokenAddress);
+        if (current.raw !== amount.raw) {
+          await this.approve(tokenAddress, amount);
+        }
+        return;
+      }
+      case 'capped': {
+        const cap = TokenAmount.parse(
+          this.config.caps[tokenAddress.toLowerCase()] || this.config.defaultCap,
+          amount.decimals
+        );
+        if (cap.lt(amount)) {
+          throw new Error(`Trade amount ${amount.format()} exceeds allowance cap ${cap.format()} for ${tokenAddress}`);
+        }
+        const current = await this.getAllowance(tokenAddress);
+        if (current.lt(amount)) {
+          await this.approve(tokenAddress, cap);
+        }
+        return;
+      }
+      default:
+        throw new Error(`Unknown allowance policy "${this.config.policy}"`);
+    }
+  }
+
+  async listAllowances(tokens: Record<string, string>): Promise<AllowanceInfo[]> {
+    const result: AllowanceInfo[] = [];
+
+    for (const [symbol, tokenAddress] of Object.entries(tokens)) {
+      try {
+        const allowance = await this.getAllowance(tokenAddress);
+
+        result.push({
+          symbol,
+          token: tokenAddress,
+          spender: this.spender,
+          allowance: allowance.format(),
+          unlimited: allowance.raw >= UNLIMITED_THRESHOLD
+        });
+      } catch (error) {
+        this.logger.error('Error reading allowance', { error, symbol, tokenAddress });
+      }
+    }
+
+    return result;
+  }
+
+  async revoke(tokenAddress: string): Promise<boolean> {
+    let revoked = false;
+
+    const allowance = await this.getAllowance(tokenAddress);
+    if (!allowance.isZero()) {
+      await this.approve(tokenAddress, TokenAmount.zero(allowance.decimals));
+      revoked = true;
+    }
+
+    this.logger.info('Revoked allowances', { token: tokenAddress, spender: this.spender, revoked });
+    return revoked;
+  }
+
+  async revokeAll(tokens: Record<string, string>): Promise<string[]> {
+    const revoked: string[] = [];
+    for (const [symbol, tokenAddress] of Object.entries(tokens)) {
+      try {
+        if (await this.revoke(tokenAddress)) {
+          revoked.push(symbol);
+        }
+      } catch (error) {
+        this.logger.error('Error revoking allowance', { error, symbol, tokenAddress });
+      }
+    }
+    return revoked;
+  }
+}
@@ -2,6 +2,8 @@ import { Logger } from 'winston';
 import { createLogger } from '../utils/logger';
 import { AgentSpawner } from './agent-spawner';
 import { UniswapService } from './uniswap-service';
+import { RiskTier } from '../config/token-registry';
+import { listTemplates } from '../runtime/templates';
 import { ethers } from 'ethers';
 import * as dotenv from 'dotenv';
 
@@ -44,6 +46,33 @@ export class ChatInterface {
           return await this.getTradeHistory();
         case 'balance':
           return await this.getWalletBalance();
+        case 'txqueue':
+          return await this.getTransactionQueue();
+        case 'allowances':
+          return await this.getAllowances();
+        case 'decisions':
+          return this.getDecisions(args);
+        case 'why':
+          return this.explainTrade(args);
+        case 'tokens':
+          return this.getTokens();
+        case 'token':
+          return await this.updateToken(args);
+        case 'templates':
+          return this.getTemplates();
+        case 'funding':
+          return await this.getFunding(args[0]);
+        case 'fund':
+          return await this.fundAgent(args);
+        case 'jobs':
+          return this.getJobs(args[0]);
+        case 'job':
+          return await this.controlJob(args);
+        case 'revoke':
+          return await this.revokeAllowances(args[0]);
+        case 'speedup':
+        case 'cancel':
+          return await this.replaceTransaction(action, args[0]);
         case 'help':
           return this.getHelp();
         default:
@@ -70,7 +99,8 @@ export class ChatInterface {
         monitoredTokens: Object.keys(status.tokens),
         activeAgents: status.totalAgents,
         lastAnalysis: status.lastAnalysis,
-        uptime: status.uptime
+        uptime: status.uptime,
+        risk: status.risk
       }
     };
   }
@@ -84,8 +114,12 @@ export class ChatInterface {
         amount: pos.amount,
         entryPrice: pos.entryPrice,
         currentPrice: pos.currentPrice,
+        twapPrice: pos.twapPrice,
         pnl: pos.pnl,
-        strategy: pos.strategy
+        strategy: pos.strategy,
+        openedAt: pos.openedAt,
+        peakPrice: pos.peakPrice,
+        exit: pos.exit
       }))
     };
   }
@@ -100,7 +134,13 @@ export class ChatInterface {
         strategy: agent.strategy,
         status: agent.status,
         spawnTime: agent.spawnTime,
-        lastAction: agent.lastAction
+        lastAction: agent.lastAction,
+        equity: agent.health?.metrics.equity,
+        roi: agent.health?.metrics.currentROI,
+        drawdown: agent.health?.metrics.drawdown,
+        maxDrawdown: agent.health?.metrics.maxDrawdown,
+        volatility: agent.health?.metrics.volatility,
+        violations: agent.health?.violations
       }))
     };
   }
@@ -116,7 +156,13 @@ export class ChatInterface {
         amount: trade.amount,
         price: trade.price,
         txHash: trade.txHash,
-        status: trade.status
+        status: trade.status,
+        quote: trade.quote,
+        fill: trade.fill,
+        gasCost: trade.gasCost,
+        realizedPnl: trade.realizedPnl,
+        exitReason: trade.exitReason,
+        failureReason: trade.failureReason
       }))
     };
   }
@@ -128,17 +174,284 @@ export class ChatInterface {
     );
     
     const ethBalance = await this.provider.getBalance(wallet.address);
+    const tokens = await this.spawner.getTokenBalances(wallet.address);
+    const paper = this.spawner.isPaperTrading();
     
     return {
       message: 'Wallet Balance',
       data: {
         address: wallet.address,
-        eth: ethers.formatEther(ethBalance),
-        tokens: await this.spawner.getTokenBalances(wallet.address)
+        mode: paper ? 'paper' : 'live',
+        eth: paper ? tokens['ETH'] : ethers.formatEther(ethBalance),
+        tokens
       }
     };
   }
 
+  private async getAllowances(): Promise<ChatResponse> {
+    const manager = this.uniswap.getAllowanceManager();
+    return {
+      message: 'Router Allowances',
+      data: {
+        policy: manager.getPolicy(),
+        allowances: await manager.listAllowances(this.spawner.getTokenAddresses())
+      }
+    };
+  }
+
+  private async revokeAllowances(target?: string): Promise<ChatResponse> {
+    const tokens = this.spawner.getTokenAddresses();
+    const manager = this.uniswap.getAllowanceManager();
+
+    if (target === 'all') {
+      return {
+        message: 'Allowances revoked',
+        data: { revoked: await manager.revokeAll(tokens) }
+      };
+    }
+
+    const symbol = target?.toUpperCase();
+    if (!symbol || !tokens[symbol]) {
+      return {
+        message: 'Unknown token',
+        error: `Usage: revoke <${Object.keys(tokens).join('|').toLowerCase()}|all>`
+      };
+    }
+
+    const revoked = await manager.revoke(tokens[symbol]);
+    return {
+      message: revoked ? 'Allowance revoked' : 'No allowance to revoke',
+      data: { token: symbol, revoked }
+    };
+  }
+
+  private getDecisions(args: string[]): ChatResponse {
+    // Accepts an optional token and/or limit in either order
+    const limitArg = args.find(arg => /^\d+$/.test(arg));
+    const token = args.find(arg => arg !== limitArg);
+    const records = this.spawner.getDecisionLog().query({
+      token,
+      limit: limitArg ? Number(limitArg) : 10
+    });
+
+    return {
+      message: 'Decision Records',
+      data: records.map(record => ({
+        id: record.id,
+        cycleId: record.cycleId,
+        token: record.token,
+        startedAt: record.startedAt,
+        outcome: record.outcome,
+        decidedAt: record.decidedAt,
+        reason: record.stages[record.stages.length - 1]?.reason,
+        tradeId: record.tradeId,
+        agentId: record.agentId
+      }))
+    };
+  }
+
+  // "why aero 14:05" finds the trade decision nearest that time today (or yesterday if still ahead)
+  private explainTrade(args: string[]): ChatResponse {
+    const [token, time] = args;
+    if (!token) {
+      return {
+        message: 'Invalid why command',
+        error: 'Usage: why <token> [HH:MM | ISO timestamp]'
+      };
+    }
+
+    let at = Date.now();
+    if (time) {
+      const clock = /^(\d{1,2}):(\d{2})$/.exec(time);
+      if (clock) {
+        const date = new Date();
+        date.setHours(Number(clock[1]), Number(clock[2]), 0, 0);
+        if (date.getTime() > Date.now()) {
+          date.setDate(date.getDate() - 1);
+        }
+        at = date.getTime();
+      } else {
+        at = Date.parse(time);
+      }
+    }
+    if (Number.isNaN(at)) {
+      return {
+        message: 'Invalid time',
+        error: `Could not parse '${time}'; use HH:MM or an ISO timestamp`
+      };
+    }
+
+    const record = this.spawner.getDecisionLog().explain(token, at);
+    if (!record) {
+      return {
+        message: 'No matching trade decision',
+        error: `No trade for ${token.toUpperCase()} within 30 minutes of ${new Date(at).toISOString()}`
+      };
+    }
+
+    return {
+      message: `Decision behind ${record.token} trade ${record.tradeId}`,
+      data: record
+    };
+  }
+
+  private getTokens(): ChatResponse {
+    return {
+      message: 'Token Registry',
+      data: this.spawner.getTokenRegistry().list()
+    };
+  }
+
+  private async updateToken(args: string[]): Promise<ChatResponse> {
+    const [operation, symbolArg, address, riskTier, quotePool] = args;
+    const registry = this.spawner.getTokenRegistry();
+    const symbol = symbolArg?.toUpperCase();
+
+    if (!symbol) {
+      return {
+        message: 'Invalid token command',
+        error: 'Usage: token add <symbol> <address> [low|medium|high] [quotePool] | token enable|disable|remove <symbol>'
+      };
+    }
+
+    switch (operation) {
+      case 'add': {
+        const token = await registry.add({
+          symbol,
+          address,
+          riskTier: (riskTier || 'high') as RiskTier,
+          quotePool,
+          enabled: true
+        });
+        this.spawner.syncTokenJobs();
+        return { message: 'Token added', data: token };
+      }
+      case 'enable':
+      case 'disable': {
+        const token = await registry.setEnabled(symbol, operation === 'enable');
+        this.spawner.syncTokenJobs();
+        return { message: operation === 'enable' ? 'Token enabled' : 'Token disabled', data: token };
+      }
+      case 'remove': {
+        const removed = this.spawner.removeToken(symbol);
+        return removed
+          ? { message: 'Token removed', data: { symbol } }
+          : { message: 'Unknown token', error: `Token ${symbol} is not registered` };
+      }
+      default:
+        return {
+          message: 'Invalid token command',
+          error: `Unknown token operation '${operation}'`
+        };
+    }
+  }
+
+  private getTemplates(): ChatResponse {
+    return {
+      message: 'Agent Templates',
+      data: listTemplates().map(template => ({
+        name: template.name,
+        side: template.side,
+        params: template.params
+      }))
+    };
+  }
+
+  private async findAgentId(idArg?: string): Promise<string | undefined> {
+    // Commands arrive lowercased; agent ids are matched case-insensitively
+    const agents = await this.spawner.getActiveAgents();
+    return agents.find(agent => agent.id.toLowerCase() === idArg)?.id;
+  }
+
+  private async getFunding(idArg?: string): Promise<ChatResponse> {
+    const agentId = idArg ? await this.findAgentId(idArg) : undefined;
+    if (idArg && !agentId) {
+      return { message: 'Unknown agent', error: `No active agent '${idArg}'` };
+    }
+    return { message: 'Agent Funding', data: this.spawner.getFunding(agentId) };
+  }
+
+  private async fundAgent(args: string[]): Promise<ChatResponse> {
+    const [idArg, amountArg, symbol] = args;
+    const amount = Number(amountArg);
+    if (!idArg || !(amount > 0)) {
+      return { message: 'Invalid funding command', error: 'Usage: fund <agentId> <amount> [token]' };
+    }
+    const agentId = await this.findAgentId(idArg);
+    if (!agentId) {
+      return { message: 'Unknown agent', error: `No active agent '${idArg}'` };
+    }
+
+    const transfers = await this.spawner.fundAgent(agentId, amount, (symbol || 'ETH').toUpperCase());
+    return { message: 'Agent funded', data: transfers };
+  }
+
+  private getJobs(group?: string): ChatResponse {
+    return {
+      message: 'Scheduled Jobs',
+      data: this.spawner.getScheduler().list(group).map(job => ({
+        ...job,
+        lastRunAt: job.lastRunAt ? new Date(job.lastRunAt).toISOString() : undefined,
+        nextRunAt: job.nextRunAt ? new Date(job.nextRunAt).toISOString() : undefined
+      }))
+    };
+  }
+
+  private async controlJob(args: string[]): Promise<ChatResponse> {
+    const [operation, idArg] = args;
+    const scheduler = this.spawner.getScheduler();
+
+    // Commands arrive lowercased, job ids carry token symbols in upper case
+    const job = scheduler.list().find(entry => entry.id.toLowerCase() === idArg);
+    if (!job) {
+      return {
+        message: 'Unknown job',
+        error: idArg ? `No job '${idArg}'. Type 'jobs' to list them.` : 'Usage: job pause|resume|run <id>'
+      };
+    }
+
+    switch (operation) {
+      case 'pause':
+        scheduler.pause(job.id);
+        return { message: 'Job paused', data: { id: job.id } };
+      case 'resume':
+        scheduler.resume(job.id);
+        return { message: 'Job resumed', data: { id: job.id } };
+      case 'run':
+        await scheduler.runNow(job.id);
+        return { message: 'Job completed', data: scheduler.list().find(entry => entry.id === job.id) };
+      default:
+        return {
+          message: 'Invalid job command',
+          error: `Unknown job operation '${operation}'`
+        };
+    }
+  }
+
+  private async getTransactionQueue(): Promise<ChatResponse> {
+    return {
+      message: 'Transaction Queue',
+      data: await this.uniswap.getTransactionQueue().getState()
+    };
+  }
+
+  private async replaceTransaction(action: 'speedup' | 'cancel', nonceArg?: string): Promise<ChatResponse> {
+    const nonce = Number(nonceArg);
+    if (!nonceArg || !Number.isInteger(nonce)) {
+      return {
+        message: 'Invalid nonce',
+        error: `Usage: ${action} <nonce>`
+      };
+    }
+
+    const queue = this.uniswap.getTransactionQueue();
+    const tx = action === 'speedup' ? await queue.speedUp(nonce) : await queue.cancel(nonce);
+    return {
+      message: action === 'speedup' ? 'Transaction sped up' : 'Transaction cancelled',
+      data: { nonce, txHash: tx.hash }
+    };
+  }
+
   private getHelp(): ChatResponse {
     return {
       message: 'Available Commands',
@@ -148,6 +461,20 @@ export class ChatInterface {
         agents: 'List all active monitoring agents',
         trades: 'Show recent trade history',
         balance: 'Show wallet balances',
+        decisions: 'Show recent pipeline decision records: decisions [token] [limit]',
+        why: 'Explain the decision behind a trade: why <token> [HH:MM]',
+        tokens: 'List configured tokens with risk tier and enabled state',
+        token: 'Edit the token registry: token add <symbol> <address> [riskTier] [quotePool] | token enable|disable|remove <symbol>',
+        templates: 'List agent templates with their parameter bounds and defaults',
+        funding: 'Show funding caps, the total funded into live agents and funding transfers: funding [agentId]',
+        fund: 'Send ETH or a token from the treasury to a live agent, within the caps: fund <agentId> <amount> [token]',
+        jobs: 'List scheduled jobs with status, failures and next run: jobs [decision|exits|health]',
+        job: 'Control a scheduled job: job pause|resume|run <id>',
+        allowances: 'List router allowances for every tracked token',
+        revoke: 'Revoke router allowances: revoke <token|all>',
+        txqueue: 'Show pending transactions and nonces for the wallet',
+        speedup: 'Resend a stuck transaction with higher fees: speedup <nonce>',
+        cancel: 'Replace a stuck transaction with a no-op: cancel <nonce>',
         help: 'Show this help message'
       }
     };
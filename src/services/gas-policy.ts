@@ -0,0 +1,81 @@
+import { ethers } from 'ethers';
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import { TokenAmount } from '../utils/token-amount';
+
+export interface GasPolicyConfig {
+  gasLimitMultiplier: number;   // Safety margin applied to the estimate, e.g. 1.2 = +20%
+  maxFeeGwei: number;           // Hard cap on maxFeePerGas
+  priorityFeeGwei: number;      // maxPriorityFeePerGas tip
+  abortAboveGwei: number;       // Refuse to send when base fee + tip exceeds this
+}
+
+export interface GasOverrides {
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+const gwei = (value: number): bigint => TokenAmount.parse(value, 9).raw;
+
+export class GasPolicy {
+  private logger: Logger;
+  private provider: ethers.Provider;
+
+  constructor(
+    provider: ethers.Provider,
+    private config: GasPolicyConfig = {
+      gasLimitMultiplier: 1.2,
+      maxFeeGwei: 2,
+      priorityFeeGwei: 0.001,
+      abortAboveGwei: 1
+    }
+  ) {
+    this.logger = createLogger('GasPolicy');
+    this.provider = provider;
+  }
+
+  async getFees(): Promise<Omit<GasOverrides, 'gasLimit'>> {
+    const block = await this.provider.getBlock('latest');
+    const baseFee = block?.baseFeePerGas;
+    if (baseFee === null || baseFee === undefined) {
+      throw new Error('Network does not report a base fee; EIP-1559 fees unavailable');
+    }
+
+    const maxPriorityFeePerGas = gwei(this.config.priorityFeeGwei);
+    const required = baseFee + maxPriorityFeePerGas;
+    if (required > gwei(this.config.abortAboveGwei)) {
+      throw new Error(
+        `Gas price ${ethers.formatUnits(required, 'gwei')} gwei exceeds abort threshold of ${this.config.abortAboveGwei} gwei`
+      );
+    }
+
+    // Leave headroom for the base fee to double before the tx lands, within the cap
+    const cap = gwei(this.config.maxFeeGwei);
+    const headroom = baseFee * BigInt(2) + maxPriorityFeePerGas;
+    const maxFeePerGas = headroom < cap ? headroom : cap;
+    if (maxFeePerGas < required) {
+      throw new Error(
+        `Fee cap of ${this.config.maxFeeGwei} gwei is below current base fee plus tip (${ethers.formatUnits(required, 'gwei')} gwei)`
+      );
+    }
+
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  // Estimates the call and returns overrides ready to spread into a contract call
+  async prepare(estimate: () => Promise<bigint>): Promise<GasOverrides> {
+    const fees = await this.getFees();
+    const estimated = await estimate();
+    const gasLimit = estimated * BigInt(Math.ceil(this.config.gasLimitMultiplier * 100)) / BigInt(100);
+
+    this.logger.info('Prepared gas parameters', {
+      estimated: estimated.toString(),
+      gasLimit: gasLimit.toString(),
+      maxFeePerGas: ethers.formatUnits(fees.maxFeePerGas, 'gwei'),
+      maxPriorityFeePerGas: ethers.formatUnits(fees.maxPriorityFeePerGas, 'gwei')
+    });
+
+    return { gasLimit, ...fees };
+  }
+}
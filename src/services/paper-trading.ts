@@ -0,0 +1,206 @@
+import { ethers } from 'ethers';
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import { SwapConfig, SwapResult, TradeExecutor } from './uniswap-service';
+import { RouteFinder, SwapQuote } from './route-finder';
+import { PriceOracle } from './price-oracle';
+import { TrackedTransaction } from './transaction-tracker';
+import { TokenMetadataRegistry } from './token-metadata';
+import { TokenAmount } from '../utils/token-amount';
+
+export interface PaperTradingConfig {
+  initialEthBalance: string;  // Starting virtual ETH balance
+  slippage: number;           // Simulated execution slippage applied to each quote
+  feeRate: number;            // Pool fee applied when filling against oracle prices
+  gasUnits: number;           // Simulated gas units recorded per swap
+  gasPriceGwei: number;       // Simulated effective gas price charged to the ETH balance
+}
+
+export class PaperTradingService implements TradeExecutor {
+  private logger: Logger;
+  private routeFinder: RouteFinder;
+  private priceOracle: PriceOracle;
+  private tokens: TokenMetadataRegistry;
+  private balances: Map<string, bigint>;  // token address (lowercase) -> raw units
+  private settlements: Map<string, TrackedTransaction>;
+  private nonce: number;
+
+  private readonly WETH_ADDRESS = '0x4200000000000000000000000000000000000006';
+
+  constructor(
+    rpcUrl: string,
+    private config: PaperTradingConfig = {
+      initialEthBalance: '10',
+      slippage: 0.001,
+      feeRate: 0.003,
+      gasUnits: 150000,
+      gasPriceGwei: 0.01
+    }
+  ) {
+    this.logger = createLogger('PaperTrading');
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.routeFinder = new RouteFinder(provider);
+    this.priceOracle = new PriceOracle(provider);
+    this.tokens = new TokenMetadataRegistry(provider);
+    this.balances = new Map([
+      [this.WETH_ADDRESS.toLowerCase(), TokenAmount.parse(config.initialEthBalance, 18).raw]
+    ]);
+    this.settlements = new Map();
+    this.nonce = 0;
+  }
+
+  async init() {
+    this.logger.info('Initialized paper trading executor', {
+      ethBalance: this.config.initialEthBalance,
+      slippage: this.config.slippage,
+      feeRate: this.config.feeRate
+    });
+  }
+
+  async approve(tokenAddress: string, amount: string): Promise<void> {
+    this.logger.info('Skipping approval in paper mode', { token: tokenAddress, amount });
+  }
+
+  async executeTrade(config: SwapConfig): Promise<SwapResult> {
+    const amountIn = (await this.tokens.parse(config.tokenIn, config.amountIn)).raw;
+    return await this._fill(config.tokenIn, config.tokenOut, amountIn, config.slippage);
+  }
+
+  async executeTradeWithETH(
+    tokenOut: string,
+    amountIn: string,
+    slippage: number,
+    _deadline: number
+  ): Promise<SwapResult> {
+    return await this._fill(this.WETH_ADDRESS, tokenOut, TokenAmount.parse(amountIn, 18).raw, slippage);
+  }
+
+  async waitForSettlement(result: SwapResult): Promise<TrackedTransaction> {
+    const settlement = this.settlements.get(result.hash);
+    if (!settlement) {
+      throw new Error(`Unknown paper trade ${result.hash}`);
+    }
+    return settlement;
+  }
+
+  getBalances(): Record<string, string> {
+    const balances: Record<string, string> = {};
+    for (const [token, balance] of this.balances.entries()) {
+      balances[token] = balance.toString();
+    }
+    return balances;
+  }
+
+  getBalance(tokenAddress: string): bigint {
+    return this.balances.get(tokenAddress.toLowerCase()) || BigInt(0);
+  }
+
+  // Moves virtual balance to another paper wallet, e.g. the treasury funding an agent
+  transfer(to: PaperTradingService, tokenAddress: string, amount: bigint): string {
+    const balance = this.getBalance(tokenAddress);
+    if (balance < amount) {
+      throw new Error(`Insufficient paper balance for ${tokenAddress}: have ${balance}, need ${amount}`);
+    }
+    this.balances.set(tokenAddress.toLowerCase(), balance - amount);
+    to.balances.set(tokenAddress.toLowerCase(), to.getBalance(tokenAddress) + amount);
+    return ethers.id(`paper-transfer-${++this.nonce}-${Date.now()}`);
+  }
+
+  // Uses the live quoter when it answers, otherwise derives a quote from oracle prices
+  private async _quote(
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    slippage: number
+  ): Promise<SwapQuote> {
+    try {
+      return await this.routeFinder.quoteSwap(tokenIn, tokenOut, amountIn, slippage);
+    } catch (error) {
+      this.logger.warn('Live quote unavailable, filling against oracle prices', { error, tokenIn, tokenOut });
+    }
+
+    const [priceIn, priceOut] = await Promise.all([
+      this.priceOracle.getPrice(tokenIn),
+      this.priceOracle.getPrice(tokenOut)
+    ]);
+    if (!priceIn || !priceOut || priceOut.spot <= 0) {
+      throw new Error(`No price available for ${tokenIn} -> ${tokenOut}`);
+    }
+
+    const valueIn = (await this.tokens.fromRaw(tokenIn, amountIn)).toNumber() * priceIn.spot;
+    const out = (valueIn / priceOut.spot) * (1 - this.config.feeRate);
+    const amountOut = (await this.tokens.parse(tokenOut, out)).raw;
+
+    return {
+      amountIn,
+      amountOut,
+      minAmountOut: amountOut * BigInt(Math.floor((1 - slippage) * 10000)) / BigInt(10000),
+      priceImpact: 0,
+      gasEstimate: BigInt(this.config.gasUnits),
+      route: {
+        tokens: [tokenIn, tokenOut],
+        fees: [Math.round(this.config.feeRate * 1e6)],
+        encodedPath: '0x'
+      }
+    };
+  }
+
+  private async _fill(
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    slippage: number
+  ): Promise<SwapResult> {
+    const balanceIn = this.getBalance(tokenIn);
+    if (balanceIn < amountIn) {
+      throw new Error(`Insufficient paper balance for ${tokenIn}: have ${balanceIn}, need ${amountIn}`);
+    }
+
+    const quote = await this._quote(tokenIn, tokenOut, amountIn, slippage);
+    const amountOut = quote.amountOut * BigInt(Math.floor((1 - this.config.slippage) * 10000)) / BigInt(10000);
+    const hash = ethers.id(`paper-${++this.nonce}-${Date.now()}`);
+    const gasUsed = BigInt(this.config.gasUnits);
+    const gasCost = gasUsed * TokenAmount.parse(this.config.gasPriceGwei, 9).raw;
+
+    // Mirror the router: a fill below the minimum reverts and moves nothing
+    if (amountOut < quote.minAmountOut) {
+      this.settlements.set(hash, {
+        hash,
+        outcome: 'reverted',
+        receipt: null,
+        fill: null,
+        gasUsed,
+        gasCost,
+        reason: 'Simulated fill below minimum output'
+      });
+    } else {
+      this.balances.set(tokenIn.toLowerCase(), balanceIn - amountIn);
+      this.balances.set(tokenOut.toLowerCase(), this.getBalance(tokenOut) + amountOut);
+      this.settlements.set(hash, {
+        hash,
+        outcome: 'confirmed',
+        receipt: null,
+        fill: { amountIn, amountOut, hops: quote.route.fees.length },
+        gasUsed,
+        gasCost
+      });
+    }
+
+    // Gas is paid whether or not the swap succeeds
+    const eth = this.WETH_ADDRESS.toLowerCase();
+    const ethBalance = this.getBalance(eth);
+    this.balances.set(eth, ethBalance > gasCost ? ethBalance - gasCost : BigInt(0));
+
+    this.logger.info('Paper trade filled', {
+      tokenIn,
+      tokenOut,
+      amountIn: amountIn.toString(),
+      expectedAmountOut: quote.amountOut.toString(),
+      amountOut: amountOut.toString(),
+      outcome: this.settlements.get(hash)!.outcome,
+      hash
+    });
+
+    return { hash, quote };
+  }
+}
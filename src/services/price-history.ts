@@ -0,0 +1,55 @@
+export interface PriceSample {
+  timestamp: number;
+  price: number;            // ETH per whole token
+}
+
+const YEAR = 365 * 24 * 60 * 60 * 1000;
+
+export class PriceHistory {
+  private samples: Map<string, PriceSample[]>;  // token address (lowercase) -> samples, oldest first
+
+  constructor(private maxSamples: number = 2000) {
+    this.samples = new Map();
+  }
+
+  record(tokenAddress: string, price: number, timestamp: number = Date.now()) {
+    if (!(price > 0)) return;
+
+    const key = tokenAddress.toLowerCase();
+    const samples = this.samples.get(key) || [];
+    samples.push({ timestamp, price });
+    if (samples.length > this.maxSamples) {
+      samples.splice(0, samples.length - this.maxSamples);
+    }
+    this.samples.set(key, samples);
+  }
+
+  getSamples(tokenAddress: string, since: number = 0): PriceSample[] {
+    return (this.samples.get(tokenAddress.toLowerCase()) || []).filter(sample => sample.timestamp >= since);
+  }
+
+  // Annualized volatility of log returns, normalized for uneven sample spacing.
+  // Returns null until there are enough samples to say anything.
+  realizedVolatility(
+    tokenAddress: string,
+    window: number = 24 * 60 * 60 * 1000,
+    minSamples: number = 5,
+    now: number = Date.now()
+  ): number | null {
+    const samples = this.getSamples(tokenAddress, now - window).filter(sample => sample.timestamp <= now);
+    if (samples.length < minSamples) return null;
+
+    let variance = 0;
+    let elapsed = 0;
+    for (let i = 1; i < samples.length; i++) {
+      const dt = samples[i].timestamp - samples[i - 1].timestamp;
+      if (dt <= 0) continue;
+      const logReturn = Math.log(samples[i].price / samples[i - 1].price);
+      variance += logReturn * logReturn;
+      elapsed += dt;
+    }
+
+    if (elapsed === 0) return null;
+    return Math.sqrt(variance / elapsed * YEAR);
+  }
+}
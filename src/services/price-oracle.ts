@@ -0,0 +1,175 @@
+import { ethers } from 'ethers';
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import { RouteFinder } from './route-finder';
+import { TokenMetadataRegistry } from './token-metadata';
+import { PriceHistory } from './price-history';
+
+export interface TokenPrice {
+  token: string;
+  spot: number;             // Price of one whole token in ETH
+  twap: number | null;      // Time-weighted average over the TWAP window, null if unavailable
+  pool: string | null;      // Pool the price was read from (null for WETH itself)
+  timestamp: number;
+}
+
+interface PoolInfo {
+  address: string;
+  fee: number;
+  tokenIsToken0: boolean;
+  token0Decimals: number;
+  token1Decimals: number;
+}
+
+const POOL_ABI = [
+  'function token0() external view returns (address)',
+  'function fee() external view returns (uint24)',
+  'function liquidity() external view returns (uint128)',
+  'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function observe(uint32[] secondsAgos) external view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)'
+];
+
+export class PriceOracle {
+  private logger: Logger;
+  private provider: ethers.Provider;
+  private routeFinder: RouteFinder;
+  private pools: Map<string, PoolInfo>;
+  private preferredPools: Map<string, string>;  // token address (lowercase) -> pool address
+  private tokens: TokenMetadataRegistry;
+  private history: PriceHistory;
+
+  private readonly WETH_ADDRESS = '0x4200000000000000000000000000000000000006';
+  private readonly FEE_TIERS = [500, 3000, 10000];
+
+  constructor(provider: ethers.Provider, private twapWindow: number = 1800) {
+    this.logger = createLogger('PriceOracle');
+    this.provider = provider;
+    this.routeFinder = new RouteFinder(provider);
+    this.pools = new Map();
+    this.preferredPools = new Map();
+    this.tokens = new TokenMetadataRegistry(provider);
+    this.history = new PriceHistory();
+  }
+
+  // Every spot price read is kept as a sample
+  getHistory(): PriceHistory {
+    return this.history;
+  }
+
+  // Pins the pool used for a token's price instead of searching for the deepest one
+  setPreferredPool(tokenAddress: string, poolAddress?: string) {
+    const key = tokenAddress.toLowerCase();
+    const current = this.preferredPools.get(key);
+    if (current?.toLowerCase() === poolAddress?.toLowerCase()) return;
+
+    if (poolAddress) {
+      this.preferredPools.set(key, poolAddress);
+    } else {
+      this.preferredPools.delete(key);
+    }
+    this.pools.delete(key);
+  }
+
+  // Finds the deepest WETH pool for the token across all fee tiers
+  private async getPool(tokenAddress: string): Promise<PoolInfo | null> {
+    const key = tokenAddress.toLowerCase();
+    if (this.pools.has(key)) {
+      return this.pools.get(key)!;
+    }
+
+    let best: { address: string; fee: number; liquidity: bigint } | null = null;
+    const preferred = this.preferredPools.get(key);
+    if (preferred) {
+      const pool = new ethers.Contract(preferred, POOL_ABI, this.provider);
+      best = { address: preferred, fee: Number(await pool.fee()), liquidity: await pool.liquidity() };
+    }
+
+    for (const fee of preferred ? [] : this.FEE_TIERS) {
+      const address = await this.routeFinder.getPool(tokenAddress, this.WETH_ADDRESS, fee);
+      if (!address) continue;
+
+      const pool = new ethers.Contract(address, POOL_ABI, this.provider);
+      const liquidity: bigint = await pool.liquidity();
+      if (!best || liquidity > best.liquidity) {
+        best = { address, fee, liquidity };
+      }
+    }
+
+    if (!best) {
+      this.logger.warn('No WETH pool found for token', { tokenAddress });
+      return null;
+    }
+
+    const pool = new ethers.Contract(best.address, POOL_ABI, this.provider);
+    const token0: string = await pool.token0();
+    const tokenIsToken0 = token0.toLowerCase() === key;
+    const tokenDecimals = await this.tokens.getDecimals(tokenAddress);
+    const wethDecimals = await this.tokens.getDecimals(this.WETH_ADDRESS);
+
+    const info: PoolInfo = {
+      address: best.address,
+      fee: best.fee,
+      tokenIsToken0,
+      token0Decimals: tokenIsToken0 ? tokenDecimals : wethDecimals,
+      token1Decimals: tokenIsToken0 ? wethDecimals : tokenDecimals
+    };
+
+    this.pools.set(key, info);
+    this.logger.info('Resolved price pool', { tokenAddress, pool: info.address, fee: info.fee });
+    return info;
+  }
+
+  // Converts a raw token1/token0 ratio into the token's price in ETH
+  private toTokenPrice(info: PoolInfo, rawPrice1Per0: number): number {
+    const price1Per0 = rawPrice1Per0 * 10 ** (info.token0Decimals - info.token1Decimals);
+    if (price1Per0 === 0) return 0;
+    return info.tokenIsToken0 ? price1Per0 : 1 / price1Per0;
+  }
+
+  private priceFromSqrtX96(info: PoolInfo, sqrtPriceX96: bigint): number {
+    const ratio = Number(sqrtPriceX96) / 2 ** 96;
+    return this.toTokenPrice(info, ratio * ratio);
+  }
+
+  private priceFromTick(info: PoolInfo, tick: number): number {
+    return this.toTokenPrice(info, 1.0001 ** tick);
+  }
+
+  async getPrice(tokenAddress: string): Promise<TokenPrice | null> {
+    if (tokenAddress.toLowerCase() === this.WETH_ADDRESS.toLowerCase()) {
+      return { token: tokenAddress, spot: 1, twap: 1, pool: null, timestamp: Date.now() };
+    }
+
+    try {
+      const info = await this.getPool(tokenAddress);
+      if (!info) return null;
+
+      const pool = new ethers.Contract(info.address, POOL_ABI, this.provider);
+      const slot0 = await pool.slot0();
+      const spot = this.priceFromSqrtX96(info, slot0.sqrtPriceX96);
+
+      let twap: number | null = null;
+      try {
+        const [tickCumulatives] = await pool.observe([this.twapWindow, 0]);
+        const averageTick = Number(tickCumulatives[1] - tickCumulatives[0]) / this.twapWindow;
+        twap = this.priceFromTick(info, Math.floor(averageTick));
+      } catch (error) {
+        // observe() reverts when the pool has too few observations for the window
+        this.logger.warn('TWAP unavailable, using spot only', { tokenAddress, pool: info.address });
+      }
+
+      this.history.record(tokenAddress, spot);
+
+      return {
+        token: tokenAddress,
+        spot,
+        twap,
+        pool: info.address,
+        timestamp: Date.now()
+      };
+    } catch (error) {
+      this.logger.error('Error reading token price', { error, tokenAddress });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { ethers } from 'ethers';
+import { RouteFinder, SwapRoute } from './route-finder';
+
+const TOKEN_IN = '0x4200000000000000000000000000000000000006';
+const MID = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const TOKEN_OUT = '0x1111111111111111111111111111111111111111';
+
+const route: SwapRoute = {
+  tokens: [TOKEN_IN, TOKEN_OUT],
+  fees: [3000],
+  encodedPath: RouteFinder.encodePath([TOKEN_IN, TOKEN_OUT], [3000])
+};
+
+// Quotes come from stubs, so the provider is never called
+function finder(amountOut: bigint, referenceOut?: bigint): RouteFinder {
+  const routeFinder = new RouteFinder({} as ethers.Provider);
+  jest.spyOn(routeFinder, 'findBestRoute').mockImplementation(async (_in, _out, amountIn) =>
+    ({ route, amountIn, amountOut, gasEstimate: BigInt(100000) })
+  );
+  jest.spyOn(routeFinder, 'quoteRoute').mockImplementation(async (quoted, amountIn) => {
+    if (referenceOut === undefined) throw new Error('quoter unavailable');
+    return { route: quoted, amountIn, amountOut: referenceOut, gasEstimate: BigInt(100000) };
+  });
+  return routeFinder;
+}
+
+describe('RouteFinder.encodePath', () => {
+  it('packs tokens and fees for exactInput', () => {
+    const path = RouteFinder.encodePath([TOKEN_IN, MID, TOKEN_OUT], [500, 3000]);
+    expect(path).toBe(ethers.solidityPacked(
+      ['address', 'uint24', 'address', 'uint24', 'address'],
+      [TOKEN_IN, 500, MID, 3000, TOKEN_OUT]
+    ));
+  });
+
+  it('rejects a path without one more token than fees', () => {
+    expect(() => RouteFinder.encodePath([TOKEN_IN, TOKEN_OUT], [500, 3000])).toThrow();
+  });
+});
+
+describe('RouteFinder.quoteSwap', () => {
+  it('applies slippage to the expected output', async () => {
+    const quote = await finder(BigInt(1000000)).quoteSwap(TOKEN_IN, TOKEN_OUT, BigInt(1000000), 0.005);
+    expect(quote.amountOut).toBe(BigInt(1000000));
+    expect(quote.minAmountOut).toBe(BigInt(995000));
+  });
+
+  it('rounds the minimum output down', async () => {
+    const quote = await finder(BigInt(999)).quoteSwap(TOKEN_IN, TOKEN_OUT, BigInt(1000), 0.01);
+    expect(quote.minAmountOut).toBe(BigInt(989));
+  });
+
+  it('measures price impact against a marginal-size quote', async () => {
+    // 1000 in returns 1 at the margin, so 1,000,000 in should return 1000 without impact
+    const quote = await finder(BigInt(900), BigInt(1)).quoteSwap(TOKEN_IN, TOKEN_OUT, BigInt(1000000), 0.01);
+    expect(quote.priceImpact).toBeCloseTo(0.1, 6);
+  });
+
+  it('reports no price impact when the reference quote fails', async () => {
+    const quote = await finder(BigInt(900)).quoteSwap(TOKEN_IN, TOKEN_OUT, BigInt(1000000), 0.01);
+    expect(quote.priceImpact).toBe(0);
+    expect(quote.minAmountOut).toBe(BigInt(891));
+  });
+});
@@ -0,0 +1,218 @@
+import { ethers } from 'ethers';
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import IQuoterV2 from '@uniswap/v3-periphery/artifacts/contracts/interfaces/IQuoterV2.sol/IQuoterV2.json';
+
+export interface SwapRoute {
+  tokens: string[];         // tokenIn, [intermediate], tokenOut
+  fees: number[];           // Pool fee for each hop
+  encodedPath: string;      // Uniswap V3 packed path for exactInput
+}
+
+export interface SwapQuote {
+  amountIn: bigint;
+  amountOut: bigint;        // Expected output at current pool state
+  minAmountOut: bigint;     // Expected output with slippage applied
+  priceImpact: number;      // Fraction of execution price lost vs. a marginal-size quote
+  gasEstimate: bigint;
+  route: SwapRoute;
+}
+
+export interface QuotedRoute {
+  route: SwapRoute;
+  amountIn: bigint;
+  amountOut: bigint;
+  gasEstimate: bigint;
+}
+
+export class RouteFinder {
+  private logger: Logger;
+  private factory: ethers.Contract;
+  private quoter: ethers.Contract;
+  private poolCache: Map<string, string | null>;
+
+  // Uniswap V3 deployment on Base
+  private readonly FACTORY_ADDRESS = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
+  private readonly QUOTER_ADDRESS = '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a';
+  private readonly FEE_TIERS = [500, 3000, 10000];
+  private readonly INTERMEDIATES = [
+    '0x4200000000000000000000000000000000000006', // WETH
+    '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'  // USDC
+  ];
+
+  constructor(provider: ethers.Provider) {
+    this.logger = createLogger('RouteFinder');
+    this.poolCache = new Map();
+
+    this.factory = new ethers.Contract(
+      this.FACTORY_ADDRESS,
+      ['function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)'],
+      provider
+    );
+
+    this.quoter = new ethers.Contract(
+      this.QUOTER_ADDRESS,
+      IQuoterV2.abi,
+      provider
+    );
+  }
+
+  static encodePath(tokens: string[], fees: number[]): string {
+    if (tokens.length !== fees.length + 1) {
+      throw new Error('Path must have exactly one more token than fees');
+    }
+
+    const types: string[] = [];
+    const values: (string | number)[] = [];
+    fees.forEach((fee, i) => {
+      types.push('address', 'uint24');
+      values.push(tokens[i], fee);
+    });
+    types.push('address');
+    values.push(tokens[tokens.length - 1]);
+
+    return ethers.solidityPacked(types, values);
+  }
+
+  async getPool(tokenA: string, tokenB: string, fee: number): Promise<string | null> {
+    const [a, b] = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort();
+    const key = `${a}-${b}-${fee}`;
+    if (this.poolCache.has(key)) {
+      return this.poolCache.get(key)!;
+    }
+
+    try {
+      const pool: string = await this.factory.getPool(tokenA, tokenB, fee);
+      const result = pool === ethers.ZeroAddress ? null : pool;
+      this.poolCache.set(key, result);
+      return result;
+    } catch (error) {
+      this.logger.error('Error looking up pool', { error, tokenA, tokenB, fee });
+      return null;
+    }
+  }
+
+  private async getHopFees(tokenA: string, tokenB: string): Promise<number[]> {
+    const fees: number[] = [];
+    for (const fee of this.FEE_TIERS) {
+      if (await this.getPool(tokenA, tokenB, fee)) {
+        fees.push(fee);
+      }
+    }
+    return fees;
+  }
+
+  async findRoutes(tokenIn: string, tokenOut: string): Promise<SwapRoute[]> {
+    const routes: SwapRoute[] = [];
+    const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+    // Single-hop routes across every fee tier with a pool
+    for (const fee of await this.getHopFees(tokenIn, tokenOut)) {
+      routes.push({
+        tokens: [tokenIn, tokenOut],
+        fees: [fee],
+        encodedPath: RouteFinder.encodePath([tokenIn, tokenOut], [fee])
+      });
+    }
+
+    // Two-hop routes through each intermediate
+    for (const mid of this.INTERMEDIATES) {
+      if (same(mid, tokenIn) || same(mid, tokenOut)) continue;
+
+      const firstFees = await this.getHopFees(tokenIn, mid);
+      if (firstFees.length === 0) continue;
+      const secondFees = await this.getHopFees(mid, tokenOut);
+
+      for (const first of firstFees) {
+        for (const second of secondFees) {
+          const tokens = [tokenIn, mid, tokenOut];
+          routes.push({
+            tokens,
+            fees: [first, second],
+            encodedPath: RouteFinder.encodePath(tokens, [first, second])
+          });
+        }
+      }
+    }
+
+    return routes;
+  }
+
+  async quoteRoute(route: SwapRoute, amountIn: bigint): Promise<QuotedRoute> {
+    // QuoterV2 reverts internally to return its result, so it must be static-called
+    const result = await this.quoter.quoteExactInput.staticCall(route.encodedPath, amountIn);
+    return {
+      route,
+      amountIn,
+      amountOut: result.amountOut,
+      gasEstimate: result.gasEstimate
+    };
+  }
+
+  async findBestRoute(tokenIn: string, tokenOut: string, amountIn: bigint): Promise<QuotedRoute> {
+    const routes = await this.findRoutes(tokenIn, tokenOut);
+    if (routes.length === 0) {
+      throw new Error(`No Uniswap V3 route found for ${tokenIn} -> ${tokenOut}`);
+    }
+
+    let best: QuotedRoute | null = null;
+    for (const route of routes) {
+      try {
+        const quoted = await this.quoteRoute(route, amountIn);
+        if (!best || quoted.amountOut > best.amountOut) {
+          best = quoted;
+        }
+      } catch (error) {
+        this.logger.warn('Route quote failed', { error, tokens: route.tokens, fees: route.fees });
+      }
+    }
+
+    if (!best || best.amountOut <= BigInt(0)) {
+      throw new Error(`No route with output found for ${tokenIn} -> ${tokenOut}`);
+    }
+
+    this.logger.info('Selected swap route', {
+      tokens: best.route.tokens,
+      fees: best.route.fees,
+      amountOut: best.amountOut.toString(),
+      candidates: routes.length
+    });
+
+    return best;
+  }
+
+  // Quotes the best route and applies slippage to its expected output
+  async quoteSwap(
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    slippage: number
+  ): Promise<SwapQuote> {
+    const best = await this.findBestRoute(tokenIn, tokenOut, amountIn);
+    const amountOut = best.amountOut;
+
+    // Compare against a marginal-size quote to estimate price impact
+    const referenceIn = amountIn / BigInt(1000) > BigInt(0) ? amountIn / BigInt(1000) : BigInt(1);
+    let priceImpact = 0;
+    try {
+      const reference = await this.quoteRoute(best.route, referenceIn);
+      if (reference.amountOut > BigInt(0)) {
+        const ratio = (amountOut * referenceIn * BigInt(1e6)) / (reference.amountOut * amountIn);
+        priceImpact = Math.max(0, 1 - Number(ratio) / 1e6);
+      }
+    } catch (error) {
+      this.logger.warn('Reference quote failed, price impact unknown', { error, tokenIn, tokenOut });
+    }
+
+    const minAmountOut = amountOut * BigInt(Math.floor((1 - slippage) * 10000)) / BigInt(10000);
+
+    return {
+      amountIn,
+      amountOut,
+      minAmountOut,
+      priceImpact,
+      gasEstimate: best.gasEstimate,
+      route: best.route
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { ethers } from 'ethers';
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import { TokenAmount } from '../utils/token-amount';
+
+export interface TokenMetadata {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+const ERC20_METADATA_ABI = [
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)'
+];
+
+// Token metadata never changes on-chain, so one cache is shared by every registry instance
+const metadataCache: Map<string, Promise<TokenMetadata>> = new Map();
+
+export class TokenMetadataRegistry {
+  private logger: Logger;
+  private provider: ethers.Provider;
+
+  constructor(provider: ethers.Provider) {
+    this.logger = createLogger('TokenMetadata');
+    this.provider = provider;
+  }
+
+  async get(tokenAddress: string): Promise<TokenMetadata> {
+    const key = tokenAddress.toLowerCase();
+    if (!metadataCache.has(key)) {
+      const pending = this._load(tokenAddress);
+      metadataCache.set(key, pending);
+      // Drop failed lookups so the next call retries
+      pending.catch(() => metadataCache.delete(key));
+    }
+    return await metadataCache.get(key)!;
+  }
+
+  async getDecimals(tokenAddress: string): Promise<number> {
+    return (await this.get(tokenAddress)).decimals;
+  }
+
+  async parse(tokenAddress: string, amount: string | number): Promise<TokenAmount> {
+    return TokenAmount.parse(amount, await this.getDecimals(tokenAddress));
+  }
+
+  async fromRaw(tokenAddress: string, raw: bigint): Promise<TokenAmount> {
+    return new TokenAmount(raw, await this.getDecimals(tokenAddress));
+  }
+
+  private async _load(tokenAddress: string): Promise<TokenMetadata> {
+    const contract = new ethers.Contract(tokenAddress, ERC20_METADATA_ABI, this.provider);
+
+    try {
+      const [decimals, symbol] = await Promise.all([
+        contract.decimals(),
+        contract.symbol()
+      ]);
+      const metadata = { address: tokenAddress, symbol, decimals: Number(decimals) };
+      this.logger.info('Loaded token metadata', metadata);
+      return metadata;
+    } catch (error) {
+      this.logger.error('Error loading token metadata', { error, tokenAddress });
+      throw error;
+    }
+  }
+}
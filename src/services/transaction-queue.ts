@@ -0,0 +1,190 @@
+import { ethers } from 'ethers';
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import { TokenAmount } from '../utils/token-amount';
+
+export interface QueuedTransaction {
+  nonce: number;
+  description: string;
+  hash: string;
+  request: ethers.TransactionRequest;
+  submittedAt: number;
+  replacements: number;     // Speed-ups and cancels sent for this nonce
+  cancelled: boolean;
+}
+
+export interface QueueState {
+  address: string;
+  nextNonce: number | null;
+  confirmedNonce: number;
+  queued: number;           // Sends waiting for their turn
+  pending: Array<Omit<QueuedTransaction, 'request'>>;
+}
+
+export class TransactionQueue {
+  private logger: Logger;
+  private signer: ethers.Signer;
+  private provider: ethers.Provider;
+  private nextNonce: number | null;
+  private tail: Promise<unknown>;
+  private waiting: number;
+  private pending: Map<number, QueuedTransaction>;
+
+  constructor(
+    signer: ethers.Signer,
+    private feeBumpPercent: number = 20,
+    private maxFeeGwei: number = 2       // Same cap the gas policy puts on maxFeePerGas
+  ) {
+    if (!signer.provider) {
+      throw new Error('Transaction queue requires a signer connected to a provider');
+    }
+    this.logger = createLogger('TransactionQueue');
+    this.signer = signer;
+    this.provider = signer.provider;
+    this.nextNonce = null;
+    this.tail = Promise.resolve();
+    this.waiting = 0;
+    this.pending = new Map();
+  }
+
+  // Runs sends one at a time so nonces are assigned in submission order
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    this.waiting++;
+    const run = this.tail.then(task, task).finally(() => {
+      this.waiting--;
+    });
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  private async _syncNonce(): Promise<number> {
+    const address = await this.signer.getAddress();
+    this.nextNonce = await this.provider.getTransactionCount(address, 'pending');
+    return this.nextNonce;
+  }
+
+  async submit(description: string, request: ethers.TransactionRequest): Promise<ethers.TransactionResponse> {
+    return this.enqueue(async () => {
+      const nonce = this.nextNonce ?? await this._syncNonce();
+
+      try {
+        const tx = await this.signer.sendTransaction({ ...request, nonce });
+        this.nextNonce = nonce + 1;
+        this.pending.set(nonce, {
+          nonce,
+          description,
+          hash: tx.hash,
+          request: { ...request, nonce },
+          submittedAt: Date.now(),
+          replacements: 0,
+          cancelled: false
+        });
+
+        this.logger.info('Transaction submitted', { description, nonce, txHash: tx.hash });
+        return tx;
+      } catch (error) {
+        // The send may have failed because our local nonce drifted, so re-read it
+        this.logger.error('Error submitting transaction', { error, description, nonce });
+        this.nextNonce = null;
+        throw error;
+      }
+    });
+  }
+
+  // Never above the fee cap, however many times the transaction is replaced
+  private _bump(value: ethers.BigNumberish | null | undefined, floor: bigint, cap: bigint): bigint {
+    const current = value !== null && value !== undefined ? BigInt(value) : floor;
+    const bumped = current * BigInt(100 + this.feeBumpPercent) / BigInt(100);
+    const fee = bumped > floor ? bumped : floor;
+    return fee < cap ? fee : cap;
+  }
+
+  private async _replace(nonce: number, cancel: boolean): Promise<ethers.TransactionResponse> {
+    return this.enqueue(async () => {
+      const entry = this.pending.get(nonce);
+      if (!entry) {
+        throw new Error(`No pending transaction with nonce ${nonce}`);
+      }
+
+      const cap = TokenAmount.parse(this.maxFeeGwei, 9).raw;
+      const previous = entry.request.maxFeePerGas;
+      if (previous !== null && previous !== undefined && BigInt(previous) >= cap) {
+        throw new Error(
+          `Transaction ${nonce} already pays the fee cap of ${this.maxFeeGwei} gwei, not ${cancel ? 'cancelling' : 'speeding up'}`
+        );
+      }
+
+      const feeData = await this.provider.getFeeData();
+      const maxFeePerGas = this._bump(entry.request.maxFeePerGas, feeData.maxFeePerGas || BigInt(0), cap);
+      const maxPriorityFeePerGas = this._bump(entry.request.maxPriorityFeePerGas, feeData.maxPriorityFeePerGas || BigInt(0), maxFeePerGas);
+
+      // A cancel is a zero-value self-transfer that takes over the stuck nonce
+      const request: ethers.TransactionRequest = cancel
+        ? { to: await this.signer.getAddress(), value: 0, nonce, gasLimit: 21000, maxFeePerGas, maxPriorityFeePerGas }
+        : { ...entry.request, nonce, maxFeePerGas, maxPriorityFeePerGas };
+
+      const tx = await this.signer.sendTransaction(request);
+      this.pending.set(nonce, {
+        ...entry,
+        hash: tx.hash,
+        request,
+        replacements: entry.replacements + 1,
+        cancelled: cancel
+      });
+
+      this.logger.info(cancel ? 'Transaction cancelled' : 'Transaction sped up', {
+        nonce,
+        description: entry.description,
+        previousHash: entry.hash,
+        txHash: tx.hash,
+        maxFeePerGas: ethers.formatUnits(maxFeePerGas, 'gwei')
+      });
+      return tx;
+    });
+  }
+
+  async speedUp(nonce: number): Promise<ethers.TransactionResponse> {
+    return this._replace(nonce, false);
+  }
+
+  async cancel(nonce: number): Promise<ethers.TransactionResponse> {
+    return this._replace(nonce, true);
+  }
+
+  async getState(): Promise<QueueState> {
+    const address = await this.signer.getAddress();
+    const confirmedNonce = await this.provider.getTransactionCount(address, 'latest');
+
+    // Anything below the mined nonce is settled and no longer needs tracking
+    for (const nonce of this.pending.keys()) {
+      if (nonce < confirmedNonce) {
+        this.pending.delete(nonce);
+      }
+    }
+
+    return {
+      address,
+      nextNonce: this.nextNonce,
+      confirmedNonce,
+      queued: this.waiting,
+      pending: Array.from(this.pending.values())
+        .sort((a, b) => a.nonce - b.nonce)
+        .map(({ request, ...entry }) => entry)
+    };
+  }
+}
+
+// Every service that signs with the same key must share one queue
+const queues: Map<string, TransactionQueue> = new Map();
+
+export function getTransactionQueue(wallet: ethers.Wallet | ethers.HDNodeWallet): TransactionQueue {
+  const key = wallet.address.toLowerCase();
+  if (!queues.has(key)) {
+    queues.set(key, new TransactionQueue(
+      wallet,
+      Number(process.env.FEE_BUMP_PERCENT) || 20,
+      Number(process.env.MAX_FEE_GWEI) || 2
+    ));
+  }
+  return queues.get(key)!;
+}
@@ -0,0 +1,156 @@
+import { ethers } from 'ethers';
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+
+// 'pending' means the wait timed out while the transaction could still mine; track it again
+export type TransactionOutcome = 'confirmed' | 'reverted' | 'replaced' | 'dropped' | 'pending';
+
+export interface SwapFill {
+  amountIn: bigint;         // Raw units paid into the first pool
+  amountOut: bigint;        // Raw units received from the last pool
+  hops: number;
+}
+
+export interface TrackedTransaction {
+  hash: string;             // Hash of the transaction that was mined (differs from the original if repriced)
+  outcome: TransactionOutcome;
+  receipt: ethers.TransactionReceipt | null;
+  fill: SwapFill | null;
+  gasUsed: bigint;
+  gasCost: bigint;          // Wei paid for gas, including failed transactions
+  reason?: string;
+}
+
+const POOL_INTERFACE = new ethers.Interface([
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)'
+]);
+
+export class TransactionTracker {
+  private logger: Logger;
+  private provider: ethers.Provider;
+
+  constructor(
+    provider: ethers.Provider,
+    private confirmations: number = 1,
+    private timeout: number = 5 * 60 * 1000
+  ) {
+    this.logger = createLogger('TransactionTracker');
+    this.provider = provider;
+  }
+
+  // Pulls actual amounts from the pool Swap events; pools report positive deltas for tokens they receive
+  parseSwapFill(receipt: ethers.TransactionReceipt): SwapFill | null {
+    const swapTopic = POOL_INTERFACE.getEvent('Swap')!.topicHash;
+    const swaps = receipt.logs
+      .filter(log => log.topics[0] === swapTopic)
+      .sort((a, b) => a.index - b.index)
+      .map(log => POOL_INTERFACE.parseLog({ topics: [...log.topics], data: log.data })!);
+
+    if (swaps.length === 0) return null;
+
+    const [firstAmount0, firstAmount1]: bigint[] = [swaps[0].args.amount0, swaps[0].args.amount1];
+    const [lastAmount0, lastAmount1]: bigint[] = [
+      swaps[swaps.length - 1].args.amount0,
+      swaps[swaps.length - 1].args.amount1
+    ];
+    const amountIn = firstAmount0 > BigInt(0) ? firstAmount0 : firstAmount1;
+    const amountOut = lastAmount0 < BigInt(0) ? -lastAmount0 : -lastAmount1;
+
+    return { amountIn, amountOut, hops: swaps.length };
+  }
+
+  async waitFor(tx: ethers.TransactionResponse): Promise<TrackedTransaction> {
+    this.logger.info('Waiting for transaction', { txHash: tx.hash, confirmations: this.confirmations });
+
+    try {
+      const receipt = await tx.wait(this.confirmations, this.timeout);
+      if (!receipt) {
+        return this._unsettled(tx.hash, 'dropped', 'No receipt returned');
+      }
+      return this._fromReceipt(receipt, 'confirmed');
+    } catch (error) {
+      // Speed-ups keep the same intent, so the replacement receipt counts as the fill
+      if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+        if (error.reason === 'repriced' && error.receipt.status === 1) {
+          this.logger.info('Transaction repriced', { txHash: tx.hash, replacement: error.hash });
+          return this._fromReceipt(error.receipt, 'confirmed');
+        }
+        this.logger.warn('Transaction replaced', { txHash: tx.hash, replacement: error.hash, reason: error.reason });
+        return {
+          ...this._fromReceipt(error.receipt, 'replaced'),
+          reason: `Transaction ${error.reason}`
+        };
+      }
+
+      if (ethers.isError(error, 'CALL_EXCEPTION') && error.receipt) {
+        return this._fromReceipt(error.receipt, 'reverted');
+      }
+
+      if (ethers.isError(error, 'TIMEOUT')) {
+        return await this._afterTimeout(tx);
+      }
+
+      this.logger.error('Error tracking transaction', { error, txHash: tx.hash });
+      throw error;
+    }
+  }
+
+  private _fromReceipt(receipt: ethers.TransactionReceipt, outcome: TransactionOutcome): TrackedTransaction {
+    const reverted = receipt.status !== 1;
+    const tracked: TrackedTransaction = {
+      hash: receipt.hash,
+      outcome: reverted && outcome === 'confirmed' ? 'reverted' : outcome,
+      receipt,
+      fill: reverted ? null : this.parseSwapFill(receipt),
+      gasUsed: receipt.gasUsed,
+      gasCost: receipt.fee,
+      reason: reverted ? 'Transaction reverted' : undefined
+    };
+
+    this.logger.info('Transaction settled', {
+      txHash: tracked.hash,
+      outcome: tracked.outcome,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      gasCost: ethers.formatEther(receipt.fee),
+      amountIn: tracked.fill?.amountIn.toString(),
+      amountOut: tracked.fill?.amountOut.toString()
+    });
+
+    return tracked;
+  }
+
+  // A timeout alone proves nothing: the transaction only counts as dropped once its nonce
+  // has been used by another transaction without it having mined
+  private async _afterTimeout(tx: ethers.TransactionResponse): Promise<TrackedTransaction> {
+    const receipt = await this.provider.getTransactionReceipt(tx.hash).catch(() => null);
+    if (receipt) {
+      return this._fromReceipt(receipt, 'confirmed');
+    }
+
+    const nonce = await this.provider.getTransactionCount(tx.from, 'latest').catch(() => null);
+    if (nonce !== null && nonce > tx.nonce) {
+      // It may have mined between the two reads
+      const late = await this.provider.getTransactionReceipt(tx.hash).catch(() => null);
+      if (late) {
+        return this._fromReceipt(late, 'confirmed');
+      }
+      return this._unsettled(tx.hash, 'dropped', `Nonce ${tx.nonce} was used by another transaction`);
+    }
+
+    return this._unsettled(tx.hash, 'pending', `Not confirmed within ${this.timeout}ms`);
+  }
+
+  private _unsettled(hash: string, outcome: 'dropped' | 'pending', reason: string): TrackedTransaction {
+    this.logger.warn('Transaction not confirmed', { txHash: hash, outcome, reason });
+    return {
+      hash,
+      outcome,
+      receipt: null,
+      fill: null,
+      gasUsed: BigInt(0),
+      gasCost: BigInt(0),
+      reason
+    };
+  }
+}
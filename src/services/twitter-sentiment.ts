@@ -3,6 +3,8 @@ import { TwitterApi } from 'twitter-api-v2';
 import { Logger } from 'winston';
 import { createLogger } from '../utils/logger';
 import { VeniceAI, VeniceAnalysis } from './venice-ai';
+import { Clock, systemClock } from '../utils/clock';
+import { EventBus, getEventBus } from '../events/event-bus';
 
 export interface TweetSentiment {
   text: string;
@@ -17,21 +19,51 @@ export interface MarketAnalysis extends VeniceAnalysis {
   timestamp: number;
 }
 
+// Turns tweets into a market read: VeniceAI in production, a deterministic scorer in backtests
+export interface SentimentScorer {
+  analyzeSentimentAndMarket(
+    token: string,
+    tweets: { text: string; engagement: number }[],
+    price?: number,
+    volume?: number
+  ): Promise<VeniceAnalysis>;
+}
+
+// Supplies tweets in the mock data shape: { text, retweets, likes, timestamp }
+export interface TweetSource {
+  searchTweets(symbol: string): Promise<any[]>;
+}
+
+export interface AnalyzerOptions {
+  scorer?: SentimentScorer;
+  tweetSource?: TweetSource;
+  clock?: Clock;
+  events?: EventBus;
+}
+
 export class TwitterSentimentAnalyzer {
   private logger: Logger;
   private twitterClient: TwitterApi | null;
-  private veniceAI: VeniceAI;
+  private veniceAI: SentimentScorer;
+  private tweetSource: TweetSource | null;
+  private clock: Clock;
+  private events: EventBus;
   private useMockData: boolean;
   private mockTweets: Record<string, any>;
 
-  constructor() {
+  constructor(options: AnalyzerOptions = {}) {
     this.logger = createLogger('TwitterSentiment');
-    this.veniceAI = new VeniceAI();
+    this.veniceAI = options.scorer || new VeniceAI();
+    this.tweetSource = options.tweetSource || null;
+    this.clock = options.clock || systemClock;
+    this.events = options.events || getEventBus();
     this.twitterClient = null;
     this.mockTweets = {};
-    this.useMockData = !process.env.TWITTER_API_KEY || !process.env.TWITTER_API_SECRET;
+    this.useMockData = !!this.tweetSource || !process.env.TWITTER_API_KEY || !process.env.TWITTER_API_SECRET;
 
-    if (!this.useMockData) {
+    if (this.tweetSource) {
+      this.logger.info('Using injected tweet source');
+    } else if (!this.useMockData) {
       this.twitterClient = new TwitterApi({
         appKey: process.env.TWITTER_API_KEY!,
         appSecret: process.env.TWITTER_API_SECRET!,
@@ -183,6 +215,10 @@ export class TwitterSentimentAnalyzer {
   }
 
   async searchTweets(symbol: string): Promise<any[]> {
+    if (this.tweetSource) {
+      return await this.tweetSource.searchTweets(symbol);
+    }
+
     if (this.useMockData || !this.twitterClient) {
       return this.mockTweets[symbol] || [];
     }
@@ -262,7 +298,7 @@ export class TwitterSentimentAnalyzer {
         ...analysis,
         tweets,
         totalEngagement,
-        timestamp: Date.now()
+        timestamp: this.clock.now()
       };
 
       this.logger.info('Market analysis completed', {
@@ -272,6 +308,7 @@ export class TwitterSentimentAnalyzer {
         marketCondition: result.marketCondition,
         suggestedActions: result.suggestedActions.length
       });
+      await this.events.publish('AnalysisCompleted', { token: symbol, analysis: result });
 
       return result;
     } catch (error) {
@@ -2,7 +2,13 @@ import { ethers } from 'ethers';
 import { Logger } from 'winston';
 import { createLogger } from '../utils/logger';
 import ISwapRouter from '@uniswap/v3-periphery/artifacts/contracts/interfaces/ISwapRouter.sol/ISwapRouter.json';
-import IERC20 from '@openzeppelin/contracts/build/contracts/IERC20.json';
+import { RouteFinder, SwapQuote } from './route-finder';
+import { TransactionTracker, TrackedTransaction } from './transaction-tracker';
+import { TokenMetadataRegistry } from './token-metadata';
+import { GasPolicy } from './gas-policy';
+import { TransactionQueue, getTransactionQueue } from './transaction-queue';
+import { AllowanceManager, parseAllowancePolicy } from './allowance-manager';
+import { TokenAmount } from '../utils/token-amount';
 
 export interface SwapConfig {
   tokenIn: string;
@@ -12,16 +18,41 @@ export interface SwapConfig {
   deadline: number;
 }
 
-export class UniswapService {
+export interface SwapResult {
+  hash: string;
+  quote: SwapQuote;
+  tx?: ethers.TransactionResponse;  // Absent when no transaction was broadcast (paper trading)
+}
+
+// Common surface for live and simulated swap execution
+export interface TradeExecutor {
+  init(): Promise<void>;
+  approve(tokenAddress: string, amount: string): Promise<void>;
+  executeTrade(config: SwapConfig): Promise<SwapResult>;
+  executeTradeWithETH(
+    tokenOut: string,
+    amountIn: string,
+    slippage: number,
+    deadline: number
+  ): Promise<SwapResult>;
+  waitForSettlement(result: SwapResult): Promise<TrackedTransaction>;
+}
+
+export class UniswapService implements TradeExecutor {
   private logger: Logger;
   private router: ethers.Contract;
+  private routeFinder: RouteFinder;
+  private txTracker: TransactionTracker;
+  private tokens: TokenMetadataRegistry;
+  private gasPolicy: GasPolicy;
+  private txQueue: TransactionQueue;
+  private allowances: AllowanceManager;
   private provider: ethers.JsonRpcProvider;
   private wallet: ethers.Wallet;
 
   // Uniswap V3 Router address on Base
   private readonly ROUTER_ADDRESS = '0x2626664c2603336E57B271c5C0b26F421741e481';
   private readonly WETH_ADDRESS = '0x4200000000000000000000000000000000000006';
-  private readonly POOL_FEE = 3000; // 0.3%
 
   constructor(rpcUrl: string, privateKey: string) {
     this.logger = createLogger('UniswapService');
@@ -38,6 +69,26 @@ export class UniswapService {
       ISwapRouter.abi,
       this.wallet
     );
+
+    this.routeFinder = new RouteFinder(this.provider);
+    this.txQueue = getTransactionQueue(this.wallet);
+    this.tokens = new TokenMetadataRegistry(this.provider);
+    this.gasPolicy = new GasPolicy(this.provider, {
+      gasLimitMultiplier: Number(process.env.GAS_LIMIT_MULTIPLIER) || 1.2,
+      maxFeeGwei: Number(process.env.MAX_FEE_GWEI) || 2,
+      priorityFeeGwei: Number(process.env.PRIORITY_FEE_GWEI) || 0.001,
+      abortAboveGwei: Number(process.env.ABORT_GAS_GWEI) || 1
+    });
+    this.allowances = new AllowanceManager(this.wallet, this.ROUTER_ADDRESS, this.gasPolicy, {
+      policy: parseAllowancePolicy(process.env.ALLOWANCE_POLICY),
+      defaultCap: process.env.ALLOWANCE_CAP || '0',
+      caps: {}
+    });
+    this.txTracker = new TransactionTracker(
+      this.provider,
+      Number(process.env.TX_CONFIRMATIONS) || 1,
+      Number(process.env.TX_CONFIRMATION_TIMEOUT) || 5 * 60 * 1000
+    );
   }
 
   async init() {
@@ -60,73 +111,67 @@ export class UniswapService {
     }
   }
 
-  private async getTokenContract(tokenAddress: string): Promise<ethers.Contract> {
-    return new ethers.Contract(tokenAddress, IERC20.abi, this.wallet);
-  }
-
   async checkAllowance(tokenAddress: string, amount: string): Promise<boolean> {
-    const tokenContract = await this.getTokenContract(tokenAddress);
-    const allowance = await tokenContract.allowance(
-      this.wallet.address,
-      this.ROUTER_ADDRESS
-    );
-    return allowance >= ethers.parseEther(amount);
+    const allowance = await this.allowances.getAllowance(tokenAddress);
+    return allowance.gte(await this.tokens.parse(tokenAddress, amount));
   }
 
   async approve(tokenAddress: string, amount: string): Promise<void> {
-    const tokenContract = await this.getTokenContract(tokenAddress);
-    const tx = await tokenContract.approve(
-      this.ROUTER_ADDRESS,
-      ethers.parseEther(amount)
-    );
-    await tx.wait();
-    this.logger.info('Approved token spending', {
-      token: tokenAddress,
-      amount,
-      txHash: tx.hash
-    });
+    await this.allowances.approve(tokenAddress, await this.tokens.parse(tokenAddress, amount));
+  }
+
+  async quote(
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    slippage: number
+  ): Promise<SwapQuote> {
+    return await this.routeFinder.quoteSwap(tokenIn, tokenOut, amountIn, slippage);
   }
 
-  async executeTrade(config: SwapConfig): Promise<ethers.TransactionResponse> {
+  async executeTrade(config: SwapConfig): Promise<SwapResult> {
     try {
       // Check allowance and approve if needed
       if (config.tokenIn !== this.WETH_ADDRESS) {
-        const hasAllowance = await this.checkAllowance(config.tokenIn, config.amountIn);
-        if (!hasAllowance) {
-          await this.approve(config.tokenIn, config.amountIn);
-        }
+        await this.allowances.ensureAllowance(
+          config.tokenIn,
+          await this.tokens.parse(config.tokenIn, config.amountIn)
+        );
       }
 
-      const amountIn = ethers.parseEther(config.amountIn);
-      const minAmountOut = amountIn * BigInt(Math.floor((1 - config.slippage) * 10000)) / BigInt(10000);
+      const amountIn = (await this.tokens.parse(config.tokenIn, config.amountIn)).raw;
+      const quote = await this.quote(config.tokenIn, config.tokenOut, amountIn, config.slippage);
 
-      // Prepare parameters for exactInputSingle
+      // Prepare parameters for exactInput along the quoted route
       const params = {
-        tokenIn: config.tokenIn,
-        tokenOut: config.tokenOut,
-        fee: this.POOL_FEE,
+        path: quote.route.encodedPath,
         recipient: this.wallet.address,
         deadline: config.deadline,
         amountIn,
-        amountOutMinimum: minAmountOut,
-        sqrtPriceLimitX96: 0
+        amountOutMinimum: quote.minAmountOut
       };
 
       // Execute swap
-      const tx = await this.router.exactInputSingle(
-        params,
-        { gasLimit: 300000 }
+      const gas = await this.gasPolicy.prepare(() => this.router.exactInput.estimateGas(params));
+      const tx = await this.txQueue.submit(
+        `swap ${config.tokenIn} -> ${config.tokenOut}`,
+        await this.router.exactInput.populateTransaction(params, gas)
       );
 
       this.logger.info('Trade executed', {
         tokenIn: config.tokenIn,
         tokenOut: config.tokenOut,
         amountIn: config.amountIn,
-        minAmountOut: ethers.formatEther(minAmountOut),
+        expectedAmountOut: (await this.tokens.fromRaw(config.tokenOut, quote.amountOut)).format(),
+        minAmountOut: (await this.tokens.fromRaw(config.tokenOut, quote.minAmountOut)).format(),
+        priceImpact: quote.priceImpact,
+        route: quote.route.tokens,
+        fees: quote.route.fees,
+        gasLimit: gas.gasLimit.toString(),
         txHash: tx.hash
       });
 
-      return tx;
+      return { hash: tx.hash, quote, tx };
     } catch (error) {
       this.logger.error('Error executing trade', { error });
       throw error;
@@ -138,43 +183,60 @@ export class UniswapService {
     amountIn: string,
     slippage: number,
     deadline: number
-  ): Promise<ethers.TransactionResponse> {
+  ): Promise<SwapResult> {
     try {
-      const amountInWei = ethers.parseEther(amountIn);
-      const minAmountOut = amountInWei * BigInt(Math.floor((1 - slippage) * 10000)) / BigInt(10000);
+      const amountInWei = TokenAmount.parse(amountIn, 18).raw;
+      const quote = await this.quote(this.WETH_ADDRESS, tokenOut, amountInWei, slippage);
 
-      // Prepare parameters for exactInputSingle
+      // Prepare parameters for exactInput along the quoted route
       const params = {
-        tokenIn: this.WETH_ADDRESS,
-        tokenOut: tokenOut,
-        fee: this.POOL_FEE,
+        path: quote.route.encodedPath,
         recipient: this.wallet.address,
         deadline: deadline,
         amountIn: amountInWei,
-        amountOutMinimum: minAmountOut,
-        sqrtPriceLimitX96: 0
+        amountOutMinimum: quote.minAmountOut
       };
 
       // Execute swap
-      const tx = await this.router.exactInputSingle(
-        params,
-        {
-          value: amountInWei,
-          gasLimit: 300000
-        }
+      const gas = await this.gasPolicy.prepare(
+        () => this.router.exactInput.estimateGas(params, { value: amountInWei })
+      );
+      const tx = await this.txQueue.submit(
+        `swap ETH -> ${tokenOut}`,
+        await this.router.exactInput.populateTransaction(params, { ...gas, value: amountInWei })
       );
 
       this.logger.info('ETH trade executed', {
         tokenOut,
         amountIn,
-        minAmountOut: ethers.formatEther(minAmountOut),
+        expectedAmountOut: (await this.tokens.fromRaw(tokenOut, quote.amountOut)).format(),
+        minAmountOut: (await this.tokens.fromRaw(tokenOut, quote.minAmountOut)).format(),
+        priceImpact: quote.priceImpact,
+        route: quote.route.tokens,
+        fees: quote.route.fees,
+        gasLimit: gas.gasLimit.toString(),
         txHash: tx.hash
       });
 
-      return tx;
+      return { hash: tx.hash, quote, tx };
     } catch (error) {
       this.logger.error('Error executing ETH trade', { error });
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  getAllowanceManager(): AllowanceManager {
+    return this.allowances;
+  }
+
+  getTransactionQueue(): TransactionQueue {
+    return this.txQueue;
+  }
+
+  async waitForSettlement(result: SwapResult): Promise<TrackedTransaction> {
+    if (!result.tx) {
+      throw new Error(`No broadcast transaction to track for ${result.hash}`);
+    }
+    return await this.txTracker.waitFor(result.tx);
+  }
+}
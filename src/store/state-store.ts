@@ -0,0 +1,243 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Logger } from 'winston';
+import { createLogger } from '../utils/logger';
+import type { SpawnedAgent } from '../factory/autonome-factory';
+import type { HealthConfig, AgentMetrics } from '../health/killswitch';
+import type { Position, Trade } from '../services/agent-spawner';
+import type { DecisionRecord } from '../pipeline/decision-log';
+import type { FundingTransfer, SweepResult } from '../factory/agent-funding';
+
+export interface AgentRecord {
+  agent: SpawnedAgent;
+  token: string;
+  healthConfig?: HealthConfig;   // Absent for agents that were never health-monitored
+  status: 'active' | 'terminated';
+  terminatedAt?: number;
+  terminationReason?: string;
+  recovery?: SweepResult;        // What the termination sweep returned to the treasury
+}
+
+export interface AgentHealthRecord {
+  agentId: string;
+  lastActivity: number;
+  metrics: AgentMetrics;
+}
+
+// One point on an agent's equity curve
+export interface EquityRecord {
+  agentId: string;
+  timestamp: number;
+  value: number;
+}
+
+// Equity points are kept per agent rather than latest-wins; this bounds each agent's history
+const MAX_EQUITY_SAMPLES = 2000;
+
+export interface PersistedState {
+  agents: AgentRecord[];
+  health: AgentHealthRecord[];
+  positions: Position[];
+  trades: Trade[];
+  decisions: DecisionRecord[];
+  funding: FundingTransfer[];
+  equity: EquityRecord[];
+}
+
+// Storage-agnostic interface so the file store can be swapped for a database later
+export interface StateRepository {
+  init(): Promise<PersistedState>;
+  saveAgent(record: AgentRecord): Promise<void>;
+  markAgentTerminated(agentId: string, reason: string, recovery?: SweepResult): Promise<void>;
+  saveAgentHealth(record: AgentHealthRecord): Promise<void>;
+  savePosition(position: Position): Promise<void>;
+  saveTrade(trade: Trade): Promise<void>;
+  saveDecision(record: DecisionRecord): Promise<void>;
+  saveFunding(transfer: FundingTransfer): Promise<void>;
+  saveEquity(record: EquityRecord): Promise<void>;
+}
+
+type Entry =
+  | { kind: 'agent'; value: AgentRecord }
+  | { kind: 'health'; value: AgentHealthRecord }
+  | { kind: 'position'; value: Position }
+  | { kind: 'trade'; value: Trade }
+  | { kind: 'decision'; value: DecisionRecord }
+  | { kind: 'funding'; value: FundingTransfer }
+  | { kind: 'equity'; value: EquityRecord };
+
+// Append-only JSON lines log; the latest entry per key wins and the log is compacted on startup
+export class FileStateStore implements StateRepository {
+  private logger: Logger;
+  private file: string;
+  private agents: Map<string, AgentRecord>;
+  private health: Map<string, AgentHealthRecord>;
+  private positions: Map<string, Position>;
+  private trades: Map<string, Trade>;
+  private decisions: Map<string, DecisionRecord>;
+  private funding: Map<string, FundingTransfer>;
+  private equity: Map<string, EquityRecord[]>;
+  private writes: Promise<void>;
+
+  constructor(directory: string) {
+    this.logger = createLogger('StateStore');
+    this.file = path.join(directory, 'state.jsonl');
+    this.agents = new Map();
+    this.health = new Map();
+    this.positions = new Map();
+    this.trades = new Map();
+    this.decisions = new Map();
+    this.funding = new Map();
+    this.equity = new Map();
+    this.writes = Promise.resolve();
+  }
+
+  async init(): Promise<PersistedState> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+
+    let lines: string[] = [];
+    try {
+      lines = (await fs.readFile(this.file, 'utf8')).split('\n');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    let skipped = 0;
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        this._apply(JSON.parse(line) as Entry);
+      } catch (error) {
+        // A crash mid-append can leave a truncated last line
+        skipped++;
+      }
+    }
+
+    await this._compact();
+
+    const state = this._snapshot();
+    this.logger.info('Loaded persisted state', {
+      file: this.file,
+      agents: state.agents.length,
+      positions: state.positions.length,
+      trades: state.trades.length,
+      decisions: state.decisions.length,
+      funding: state.funding.length,
+      skipped
+    });
+    return state;
+  }
+
+  async saveAgent(record: AgentRecord): Promise<void> {
+    await this._append({ kind: 'agent', value: record });
+  }
+
+  async markAgentTerminated(agentId: string, reason: string, recovery?: SweepResult): Promise<void> {
+    const record = this.agents.get(agentId);
+    if (!record) return;
+    await this.saveAgent({
+      ...record,
+      status: 'terminated',
+      terminatedAt: Date.now(),
+      terminationReason: reason,
+      recovery
+    });
+  }
+
+  async saveAgentHealth(record: AgentHealthRecord): Promise<void> {
+    await this._append({ kind: 'health', value: record });
+  }
+
+  async savePosition(position: Position): Promise<void> {
+    await this._append({ kind: 'position', value: position });
+  }
+
+  async saveTrade(trade: Trade): Promise<void> {
+    await this._append({ kind: 'trade', value: trade });
+  }
+
+  async saveDecision(record: DecisionRecord): Promise<void> {
+    await this._append({ kind: 'decision', value: record });
+  }
+
+  async saveFunding(transfer: FundingTransfer): Promise<void> {
+    await this._append({ kind: 'funding', value: transfer });
+  }
+
+  async saveEquity(record: EquityRecord): Promise<void> {
+    await this._append({ kind: 'equity', value: record });
+  }
+
+  private _apply(entry: Entry) {
+    switch (entry.kind) {
+      case 'agent':
+        this.agents.set(entry.value.agent.id, entry.value);
+        break;
+      case 'health':
+        this.health.set(entry.value.agentId, entry.value);
+        break;
+      case 'position':
+        this.positions.set(entry.value.token, entry.value);
+        break;
+      case 'trade':
+        this.trades.set(entry.value.id, entry.value);
+        break;
+      case 'decision':
+        this.decisions.set(entry.value.id, entry.value);
+        break;
+      case 'funding':
+        this.funding.set(entry.value.id, entry.value);
+        break;
+      case 'equity': {
+        const samples = this.equity.get(entry.value.agentId) || [];
+        samples.push(entry.value);
+        if (samples.length > MAX_EQUITY_SAMPLES) {
+          samples.splice(0, samples.length - MAX_EQUITY_SAMPLES);
+        }
+        this.equity.set(entry.value.agentId, samples);
+        break;
+      }
+    }
+  }
+
+  private _snapshot(): PersistedState {
+    return {
+      agents: Array.from(this.agents.values()),
+      health: Array.from(this.health.values()),
+      positions: Array.from(this.positions.values()),
+      trades: Array.from(this.trades.values()).sort((a, b) => a.timestamp - b.timestamp),
+      decisions: Array.from(this.decisions.values()).sort((a, b) => a.startedAt - b.startedAt),
+      funding: Array.from(this.funding.values()).sort((a, b) => a.timestamp - b.timestamp),
+      equity: Array.from(this.equity.values()).flat()
+    };
+  }
+
+  // Rejects if the line could not be written, so callers never take unsaved state as durable
+  private _append(entry: Entry): Promise<void> {
+    this._apply(entry);
+    // Chain writes so lines never interleave; a failed write does not stop the ones after it
+    const write = this.writes.then(() => fs.appendFile(this.file, JSON.stringify(entry) + '\n'));
+    this.writes = write.catch(() => undefined);
+    return write.catch(error => {
+      this.logger.error('Error persisting state', { error, kind: entry.kind });
+      throw error;
+    });
+  }
+
+  private async _compact(): Promise<void> {
+    const state = this._snapshot();
+    const entries: Entry[] = [
+      ...state.agents.map(value => ({ kind: 'agent' as const, value })),
+      ...state.health.map(value => ({ kind: 'health' as const, value })),
+      ...state.positions.map(value => ({ kind: 'position' as const, value })),
+      ...state.trades.map(value => ({ kind: 'trade' as const, value })),
+      ...state.decisions.map(value => ({ kind: 'decision' as const, value })),
+      ...state.funding.map(value => ({ kind: 'funding' as const, value })),
+      ...state.equity.map(value => ({ kind: 'equity' as const, value }))
+    ];
+
+    const temp = `${this.file}.tmp`;
+    await fs.writeFile(temp, entries.map(entry => JSON.stringify(entry)).join('\n') + (entries.length ? '\n' : ''));
+    await fs.rename(temp, this.file);
+  }
+}
@@ -0,0 +1,24 @@
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now()
+};
+
+// Manually advanced clock for replaying history
+export class SimulatedClock implements Clock {
+  constructor(private time: number) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  set(time: number) {
+    this.time = time;
+  }
+
+  advance(ms: number) {
+    this.time += ms;
+  }
+}
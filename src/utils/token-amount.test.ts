@@ -0,0 +1,43 @@
+import { TokenAmount } from './token-amount';
+
+describe('TokenAmount', () => {
+  it('parses whole-unit strings into raw units', () => {
+    const amount = TokenAmount.parse('1.5', 6);
+    expect(amount.raw).toBe(BigInt(1500000));
+    expect(amount.format()).toBe('1.5');
+  });
+
+  it('truncates precision the token cannot represent', () => {
+    expect(TokenAmount.parse('0.1234567', 6).raw).toBe(BigInt(123456));
+    expect(TokenAmount.parse('2.', 6).raw).toBe(BigInt(2000000));
+  });
+
+  it('parses numbers without exponent notation', () => {
+    expect(TokenAmount.parse(1e-7, 18).raw).toBe(BigInt(100000000000));
+    expect(TokenAmount.parse(0.1, 18).format()).toBe('0.1');
+  });
+
+  it('rejects non-finite numbers', () => {
+    expect(() => TokenAmount.parse(NaN, 18)).toThrow();
+    expect(() => TokenAmount.parse(Infinity, 18)).toThrow();
+  });
+
+  it('adds, subtracts and compares amounts with the same decimals', () => {
+    const a = TokenAmount.parse('1.25', 8);
+    const b = TokenAmount.parse('0.75', 8);
+    expect(a.add(b).format()).toBe('2.0');
+    expect(a.sub(b).format()).toBe('0.5');
+    expect(a.gte(b)).toBe(true);
+    expect(a.lt(b)).toBe(false);
+    expect(TokenAmount.zero(8).isZero()).toBe(true);
+  });
+
+  it('refuses to combine amounts with different decimals', () => {
+    expect(() => TokenAmount.parse('1', 6).add(TokenAmount.parse('1', 18))).toThrow(/decimals/);
+  });
+
+  it('scales by a fraction with basis-point precision, rounding down', () => {
+    expect(TokenAmount.parse('100', 6).mul(0.995).format()).toBe('99.5');
+    expect(new TokenAmount(BigInt(3), 0).mul(0.5).raw).toBe(BigInt(1));
+  });
+});
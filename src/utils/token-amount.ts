@@ -0,0 +1,81 @@
+import { ethers } from 'ethers';
+
+// Immutable token amount that keeps raw units and decimals together
+export class TokenAmount {
+  constructor(
+    readonly raw: bigint,
+    readonly decimals: number
+  ) {}
+
+  static zero(decimals: number): TokenAmount {
+    return new TokenAmount(BigInt(0), decimals);
+  }
+
+  // Parses a human-readable amount, truncating precision the token cannot represent
+  static parse(value: string | number, decimals: number): TokenAmount {
+    let text = typeof value === 'number' ? TokenAmount.numberToString(value) : value.trim();
+    const [whole, fraction = ''] = text.split('.');
+    text = fraction.length > decimals
+      ? `${whole}.${fraction.slice(0, decimals)}`
+      : text;
+    if (text.endsWith('.')) {
+      text = text.slice(0, -1);
+    }
+    return new TokenAmount(ethers.parseUnits(text || '0', decimals), decimals);
+  }
+
+  private static numberToString(value: number): string {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot convert ${value} to a token amount`);
+    }
+    // Avoid exponent notation, which parseUnits rejects
+    return value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 });
+  }
+
+  format(): string {
+    return ethers.formatUnits(this.raw, this.decimals);
+  }
+
+  toNumber(): number {
+    return Number(this.format());
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  isZero(): boolean {
+    return this.raw === BigInt(0);
+  }
+
+  add(other: TokenAmount): TokenAmount {
+    this.assertSameDecimals(other);
+    return new TokenAmount(this.raw + other.raw, this.decimals);
+  }
+
+  sub(other: TokenAmount): TokenAmount {
+    this.assertSameDecimals(other);
+    return new TokenAmount(this.raw - other.raw, this.decimals);
+  }
+
+  // Scales by a fraction with basis-point precision, e.g. 1 - slippage
+  mul(fraction: number): TokenAmount {
+    return new TokenAmount(this.raw * BigInt(Math.floor(fraction * 10000)) / BigInt(10000), this.decimals);
+  }
+
+  gte(other: TokenAmount): boolean {
+    this.assertSameDecimals(other);
+    return this.raw >= other.raw;
+  }
+
+  lt(other: TokenAmount): boolean {
+    this.assertSameDecimals(other);
+    return this.raw < other.raw;
+  }
+
+  private assertSameDecimals(other: TokenAmount) {
+    if (other.decimals !== this.decimals) {
+      throw new Error(`Cannot combine amounts with ${this.decimals} and ${other.decimals} decimals`);
+    }
+  }
+}